@@ -0,0 +1,183 @@
+/**
+ * アーカイブモード。ページを MHTML（chrome.pageCapture）か、CSS と画像を data URL で埋め込んだ単体の HTML として
+ * memory/raw_content に保存する。ページが消えたり変わったりしても見た目ごと残し、クリップの frontmatter の archive: から辿る。
+ */
+
+import type { StorageSink } from "./storage-sink";
+import { putVaultBinaryOrQueue } from "./outbox";
+import { fetchPageSnapshot } from "./tab-capture";
+
+export const STORAGE_KEY_ARCHIVE_MODE = "tabReaper_archiveMode";
+
+export type ArchiveMode = "off" | "mhtml" | "html";
+
+/** 1つの画像・フォント・CSS の上限。超えるものは元の URL のまま残す */
+const RESOURCE_MAX_BYTES = 5 * 1024 * 1024;
+/** 1ページで埋め込む合計の上限 */
+const INLINE_TOTAL_MAX_BYTES = 30 * 1024 * 1024;
+const CSS_IMPORT_MAX_DEPTH = 2;
+
+export async function loadArchiveMode(): Promise<ArchiveMode> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_ARCHIVE_MODE);
+  const mode = o[STORAGE_KEY_ARCHIVE_MODE];
+  return mode === "mhtml" || mode === "html" ? mode : "off";
+}
+
+type InlineContext = {
+  remaining: number;
+  /** URL → data URL（取れなかったものは null）。同じ画像・フォントは1回だけ取得する */
+  dataUrls: Map<string, string | null>;
+};
+
+async function fetchResource(
+  url: string,
+  ctx: InlineContext
+): Promise<{ data: ArrayBuffer; contentType: string } | null> {
+  if (ctx.remaining <= 0) return null;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return null;
+    const data = await res.arrayBuffer();
+    if (data.byteLength > RESOURCE_MAX_BYTES || data.byteLength > ctx.remaining) return null;
+    ctx.remaining -= data.byteLength;
+    const contentType = (res.headers.get("content-type") || "application/octet-stream").split(";")[0].trim();
+    return { data, contentType };
+  } catch {
+    return null;
+  }
+}
+
+function toDataUrl(data: ArrayBuffer, contentType: string): string {
+  const bytes = new Uint8Array(data);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${contentType};base64,${btoa(binary)}`;
+}
+
+async function dataUrlOf(url: string, ctx: InlineContext): Promise<string | null> {
+  if (!ctx.dataUrls.has(url)) {
+    const res = await fetchResource(url, ctx);
+    ctx.dataUrls.set(url, res ? toDataUrl(res.data, res.contentType) : null);
+  }
+  return ctx.dataUrls.get(url) ?? null;
+}
+
+function resolveUrl(url: string, base: string): string | null {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return null;
+  }
+}
+
+function escapeAttr(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+/** 非同期の置換関数で全一致を置き換える（取得は順番に行う） */
+async function replaceAsync(
+  text: string,
+  re: RegExp,
+  fn: (m: RegExpMatchArray) => Promise<string>
+): Promise<string> {
+  let out = "";
+  let last = 0;
+  for (const m of text.matchAll(re)) {
+    out += text.slice(last, m.index) + (await fn(m));
+    last = m.index! + m[0].length;
+  }
+  return out + text.slice(last);
+}
+
+/** CSS の @import を展開し、url() の画像・フォントを data URL にする。埋め込めないものは絶対 URL にする */
+async function inlineCss(css: string, baseUrl: string, ctx: InlineContext, depth: number): Promise<string> {
+  const imported = await replaceAsync(
+    css,
+    /@import\s+(?:url\(\s*)?(['"]?)([^'")\s]+)\1\s*\)?\s*([^;]*);/g,
+    async (m) => {
+      const url = resolveUrl(m[2], baseUrl);
+      if (!url) return "";
+      const res = depth < CSS_IMPORT_MAX_DEPTH ? await fetchResource(url, ctx) : null;
+      if (!res) return `@import url("${url}") ${m[3]};`;
+      const body = await inlineCss(new TextDecoder().decode(res.data), url, ctx, depth + 1);
+      return m[3].trim() ? `@media ${m[3].trim()} {\n${body}\n}` : body;
+    }
+  );
+  return replaceAsync(imported, /url\(\s*(['"]?)([^'")]+)\1\s*\)/g, async (m) => {
+    const ref = m[2].trim();
+    if (/^(data|blob):/i.test(ref) || ref.startsWith("#")) return m[0];
+    const url = resolveUrl(ref, baseUrl);
+    if (!url) return m[0];
+    return `url("${(await dataUrlOf(url, ctx)) ?? url}")`;
+  });
+}
+
+/** ページを CSS・画像を埋め込んだ単体の HTML にする。ページに注入できなければ null */
+async function buildSelfContainedHtml(tabId: number, url: string): Promise<string | null> {
+  const snapshot = await fetchPageSnapshot(tabId, url, false);
+  if (!snapshot) return null;
+  const { resources } = snapshot;
+  const ctx: InlineContext = { remaining: INLINE_TOTAL_MAX_BYTES, dataUrls: new Map() };
+  const withCss = await replaceAsync(snapshot.html, /<style([^>]*)>([\s\S]*?)<\/style>/gi, async (m) => {
+    const base = m[1].match(/data-tabreaper-base="([^"]*)"/)?.[1]?.replace(/&quot;/g, '"').replace(/&amp;/g, "&");
+    const baseUrl = base ?? url;
+    const linked = m[2].match(/^\/\*tabreaper-res:(\d+)\*\/$/);
+    let css = m[2];
+    if (linked) {
+      const href = resources[Number(linked[1])];
+      const res = await fetchResource(href, ctx);
+      // 取れなかった外部 CSS は元の <link> に戻しておく（オンラインなら見た目が戻る）
+      if (!res) return `<link rel="stylesheet" href="${escapeAttr(href)}">`;
+      css = new TextDecoder().decode(res.data);
+    }
+    return `<style${m[1]}>${await inlineCss(css, baseUrl, ctx, 0)}</style>`;
+  });
+  return replaceAsync(withCss, /tabreaper-res:(\d+)/g, async (m) => {
+    const src = resources[Number(m[1])];
+    return escapeAttr((await dataUrlOf(src, ctx)) ?? src);
+  });
+}
+
+async function captureMhtml(tabId: number): Promise<ArrayBuffer | null> {
+  try {
+    const blob = await chrome.pageCapture.saveAsMHTML({ tabId });
+    return blob ? await blob.arrayBuffer() : null;
+  } catch (e) {
+    console.error("mhtml capture error:", tabId, e);
+    return null;
+  }
+}
+
+/**
+ * タブをアーカイブして pathBase に拡張子（.mhtml / .html）を付けたパスに保存し、そのパスを返す。
+ * 取得できなければ null、書き込みの失敗は例外。
+ */
+export async function saveTabArchive(
+  sink: StorageSink,
+  tab: { id: number; url: string },
+  pathBase: string,
+  mode: Exclude<ArchiveMode, "off">
+): Promise<string | null> {
+  let data: ArrayBuffer | null;
+  if (mode === "mhtml") {
+    data = await captureMhtml(tab.id);
+  } else {
+    const html = await buildSelfContainedHtml(tab.id, tab.url);
+    data = html ? (new TextEncoder().encode(html).buffer as ArrayBuffer) : null;
+  }
+  if (!data) return null;
+  const path = `${pathBase}.${mode}`;
+  // REST API が本文をテキストとして解釈しないよう、どちらもバイナリとして送る
+  await putVaultBinaryOrQueue(sink, path, data, "application/octet-stream");
+  return path;
+}
+
+/** クリップの frontmatter に archive: を足す */
+export function withArchiveFrontmatter(md: string, archivePath: string | undefined): string {
+  if (!archivePath || !md.startsWith("---\n")) return md;
+  const end = md.indexOf("\n---", 4);
+  if (end === -1) return md;
+  return `${md.slice(0, end)}\narchive: ${archivePath}${md.slice(end)}`;
+}
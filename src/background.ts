@@ -0,0 +1,273 @@
+/**
+ * tabReaper service worker - popup から保存依頼を受けて reap パイプラインを実行する。
+ * popup が閉じても処理を継続し、進捗は run-status 経由で chrome.storage.session に書く。
+ */
+
+import { runReap } from "./reap";
+import { startPendingRun, loadPendingRun, type JobTracker } from "./job-store";
+import { loadPostSaveAction, applyPostSaveAction, undoClosedTabs } from "./post-save";
+import {
+  COMMAND_KINDS,
+  QUICK_REAP_MENU_ITEMS,
+  buildQuickReapSelection,
+  notify,
+  type QuickReapKind,
+} from "./quick-reap";
+import { applyDomainRules, loadDomainRules } from "./rules";
+import { SNAPSHOT_ALARM_NAME, scheduleSnapshotAlarm, takeSnapshot } from "./snapshot";
+import { OUTBOX_ALARM_NAME, discardOutbox, flushOutboxIfReachable } from "./outbox";
+import { forgetImageFiles } from "./images";
+import {
+  loadRunStatus,
+  saveRunStatus,
+  type ReapRequest,
+  type ReapResponse,
+  type RunStatus,
+  type StatusType,
+} from "./run-status";
+import type { SelectedWindow } from "./tab-info";
+
+/** LLM 呼び出し中もワーカーが止まらないよう、実行中は拡張 API を定期的に叩く */
+const KEEP_ALIVE_INTERVAL_MS = 20000;
+
+let running = false;
+
+// 前回の実行中にワーカーが落ちていたら、running のまま残った進捗を打ち切る
+loadRunStatus().then((status) => {
+  if (!status?.running || running) return;
+  saveRunStatus({
+    ...status,
+    running: false,
+    message: "保存処理が中断されました。「中断した保存を再開」で続きから実行できます",
+    type: "error",
+    updatedAt: new Date().toISOString(),
+  });
+});
+
+chrome.runtime.onMessage.addListener((message: ReapRequest, _sender, sendResponse: (res: ReapResponse) => void) => {
+  if (message?.type === "reap:undo") {
+    undoReap().then(
+      () => sendResponse({ ok: true }),
+      (e) => sendResponse({ ok: false, error: (e as Error).message })
+    );
+    return true;
+  }
+  if (message?.type === "reap:start") {
+    const { byWindow, discardPending } = message;
+    launchReap(() => prepareNewRun(byWindow, { discardPending })).then(sendResponse);
+    return true;
+  }
+  if (message?.type === "reap:resume") {
+    launchReap(loadPendingRun).then(sendResponse);
+    return true;
+  }
+  if (message?.type === "outbox:flush") {
+    flushOutboxIfReachable().then(
+      (sent) => sendResponse(sent == null ? { ok: false, error: "保存先に接続できません" } : { ok: true }),
+      (e) => sendResponse({ ok: false, error: (e as Error).message })
+    );
+    return true;
+  }
+  if (message?.type === "outbox:discard") {
+    discardOutbox()
+      .then(forgetImageFiles)
+      .then(
+        () => sendResponse({ ok: true }),
+        (e) => sendResponse({ ok: false, error: (e as Error).message })
+      );
+    return true;
+  }
+});
+
+chrome.runtime.onInstalled.addListener(() => {
+  chrome.contextMenus.removeAll(() => {
+    for (const item of QUICK_REAP_MENU_ITEMS) {
+      chrome.contextMenus.create({ id: item.id, title: item.title, contexts: item.contexts });
+    }
+  });
+  scheduleSnapshotAlarm();
+});
+
+// アラームはブラウザ再起動で消えることがあるので起動時にも登録し直す
+chrome.runtime.onStartup.addListener(() => {
+  scheduleSnapshotAlarm();
+  flushOutboxInBackground();
+});
+
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area !== "local") return;
+  if (Object.keys(changes).some((k) => k.startsWith("tabReaper_snapshot"))) scheduleSnapshotAlarm();
+});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === OUTBOX_ALARM_NAME) flushOutboxInBackground();
+  if (alarm.name !== SNAPSHOT_ALARM_NAME) return;
+  runSnapshot().finally(scheduleSnapshotAlarm);
+});
+
+chrome.commands.onCommand.addListener((command, tab) => {
+  const kind = COMMAND_KINDS[command];
+  if (kind) quickReap(kind, tab);
+});
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  const item = QUICK_REAP_MENU_ITEMS.find((m) => m.id === info.menuItemId);
+  if (item) quickReap(item.kind, tab, info.selectionText);
+});
+
+/**
+ * 実行中でなければ prepare で対象を用意して reap を始める。開始できたかだけを返し、完了は待たない。
+ * prepare が null を返したら再開対象なし。skipPostSave は無人の実行（定時スナップショット）で保存後のタブ処理をしない。
+ */
+async function launchReap(
+  prepare: () => Promise<{ byWindow: SelectedWindow[]; tracker: JobTracker } | null>,
+  opts: { notify?: boolean; skipPostSave?: boolean } = {}
+): Promise<ReapResponse> {
+  if (running) return { ok: false, error: "保存処理を実行中です" };
+  running = true;
+  try {
+    const run = await prepare();
+    if (!run) {
+      running = false;
+      return { ok: false, error: "再開できる保存はありません" };
+    }
+    startReap(run.byWindow, run.tracker, opts).finally(() => {
+      running = false;
+    });
+    return { ok: true };
+  } catch (e) {
+    running = false;
+    return { ok: false, error: (e as Error).message };
+  }
+}
+
+/** 新しい実行の準備。ドメインルールを反映してからジョブを記録する（再開時はルールを当て直さない） */
+async function prepareNewRun(
+  selection: SelectedWindow[],
+  opts: { discardPending?: boolean } = {}
+): Promise<{ byWindow: SelectedWindow[]; tracker: JobTracker }> {
+  const byWindow = applyDomainRules(selection, await loadDomainRules());
+  if (byWindow.length === 0) throw new Error("選択したタブはすべてルールで除外されています");
+  return { byWindow, tracker: await startPendingRun(byWindow, opts) };
+}
+
+/** ショートカット・右クリックからの保存。tab が無ければ最後にフォーカスしたウィンドウのアクティブタブ */
+async function quickReap(kind: QuickReapKind, tab: chrome.tabs.Tab | undefined, selectionText?: string) {
+  const target = tab?.id != null ? tab : (await chrome.tabs.query({ active: true, lastFocusedWindow: true }))[0];
+  const res = await launchReap(
+    async () => {
+      if (!target) throw new Error("対象のタブがありません");
+      return prepareNewRun(await buildQuickReapSelection(kind, target, selectionText));
+    },
+    { notify: true }
+  );
+  if (!res.ok) notify("tabReaper", res.error);
+}
+
+/**
+ * 定時スナップショット。古いタブの要約保存は他の保存が動いていなければ通常の実行として始める。
+ * 無人で動くので保存後のタブ処理（閉じる・破棄・グループ移動）はしない。
+ */
+async function runSnapshot(): Promise<void> {
+  try {
+    const { linkedCount, toSummarize, queued } = await takeSnapshot(!running);
+    if (toSummarize.length === 0) {
+      notify(
+        "tabReaper",
+        queued
+          ? `スナップショット: 保存先に接続できないため ${linkedCount}タブの記録を送信待ちに入れました`
+          : `スナップショット: ${linkedCount}タブを day-index に記録しました`
+      );
+      return;
+    }
+    const res = await launchReap(() => prepareNewRun(toSummarize), { notify: true, skipPostSave: true });
+    if (!res.ok) notify("tabReaper", `スナップショットの要約保存を開始できませんでした: ${res.error}`);
+  } catch (e) {
+    notify("tabReaper", `スナップショットエラー: ${(e as Error).message}`);
+  }
+}
+
+/** 送信待ちを保存先に送る（接続できなければ次のアラームで再試行）。送れたら通知する */
+async function flushOutboxInBackground(): Promise<void> {
+  try {
+    const sent = await flushOutboxIfReachable();
+    if (sent) notify("tabReaper", `送信待ちだった ${sent}件の書き込みを保存しました`);
+  } catch (e) {
+    console.error("outbox flush error:", e);
+  }
+}
+
+async function startReap(
+  byWindow: SelectedWindow[],
+  jobs: JobTracker,
+  opts: { notify?: boolean; skipPostSave?: boolean } = {}
+): Promise<void> {
+  let last: RunStatus = {
+    running: true,
+    message: "保存を開始します...",
+    type: "info",
+    distillFailedTabIds: [],
+    closedTabIds: [],
+    writeConflicts: [],
+    updatedAt: new Date().toISOString(),
+  };
+  const report = (message: string, type: StatusType) => {
+    last = { ...last, message, type, updatedAt: new Date().toISOString() };
+    saveRunStatus(last);
+  };
+  await saveRunStatus(last);
+  const keepAlive = setInterval(() => chrome.runtime.getPlatformInfo(), KEEP_ALIVE_INTERVAL_MS);
+  try {
+    const result = await runReap(byWindow, report, jobs);
+    last = {
+      ...last,
+      distillFailedTabIds: result?.distillFailedTabIds ?? [],
+      writeConflicts: result?.writeConflicts ?? [],
+    };
+    if (result && !opts.skipPostSave) last = await runPostSaveAction(result.reapedTabs, last);
+  } catch (e) {
+    console.error(e);
+    last = { ...last, message: `保存エラー: ${(e as Error).message}`, type: "error" };
+  } finally {
+    clearInterval(keepAlive);
+    await saveRunStatus({ ...last, running: false, updatedAt: new Date().toISOString() });
+    if (opts.notify) notify("tabReaper", last.message);
+  }
+}
+
+/** 保存に成功したタブだけに保存後アクションを適用し、結果を完了メッセージに足す */
+async function runPostSaveAction(tabs: Array<{ id: number; url: string }>, status: RunStatus): Promise<RunStatus> {
+  const action = await loadPostSaveAction();
+  try {
+    const tabIds = await applyPostSaveAction(action, tabs);
+    if (tabIds.length === 0) return status;
+    const label =
+      action === "close"
+        ? "閉じました（5分間は元に戻せます）"
+        : action === "discard"
+          ? "破棄しました"
+          : "reaped グループに移動しました";
+    return {
+      ...status,
+      message: `${status.message} / ${tabIds.length}タブを${label}`,
+      closedTabIds: action === "close" ? tabIds : [],
+    };
+  } catch (e) {
+    console.error("post-save action error:", e);
+    return status;
+  }
+}
+
+async function undoReap(): Promise<void> {
+  const restored = await undoClosedTabs();
+  const status = await loadRunStatus();
+  await saveRunStatus({
+    running: false,
+    message: restored > 0 ? `${restored}タブを元に戻しました` : "元に戻せるタブはありません",
+    type: restored > 0 ? "success" : "error",
+    distillFailedTabIds: status?.distillFailedTabIds ?? [],
+    closedTabIds: [],
+    writeConflicts: status?.writeConflicts ?? [],
+    updatedAt: new Date().toISOString(),
+  });
+}
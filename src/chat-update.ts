@@ -0,0 +1,75 @@
+/**
+ * 保存済みチャットの追記（再取得）。既存の参照ノートから raw_chat を読み、今回取れたターンのうち
+ * 保存済みの会話に無いもの（末尾の新しいターン）だけを取り出す。distill した差分はノートに日付付きの節として足す。
+ */
+
+import { type ChatMessage } from "@pipelines/normalizer";
+import type { StorageSink } from "./storage-sink";
+
+/** 照合に使うターン本文の長さ。UI の差（末尾のボタン文言など）で全文一致しないことがあるので先頭だけ見る */
+const TURN_MATCH_CHARS = 200;
+/** これより短いターン（「はい」等）は保存済みかどうかの手がかりにしない */
+const TURN_MATCH_MIN_CHARS = 8;
+
+export interface StoredChat {
+  notePath: string;
+  noteContent: string;
+  rawChatPath: string;
+  /** raw_chat の本文（frontmatter を除く）。無ければ空 */
+  rawChatBody: string;
+  /** raw_chat の created_at（追記後も最初の取得日時を残す） */
+  createdAt: string | null;
+}
+
+function frontmatterField(md: string, key: string): string | null {
+  const fm = md.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  const m = fm?.[1].match(new RegExp(`^${key}:\\s*"?(.+?)"?\\s*$`, "m"));
+  return m ? m[1] : null;
+}
+
+function stripFrontmatter(md: string): string {
+  return md.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, "");
+}
+
+/** 既存の参照ノートと、その raw_chat を読む。ノートが無い・raw_chat が書かれていなければ null */
+export async function loadStoredChat(sink: StorageSink, notePath: string): Promise<StoredChat | null> {
+  const noteContent = await sink.get(notePath);
+  if (!noteContent) return null;
+  const rawChatPath = frontmatterField(noteContent, "raw_chat");
+  if (!rawChatPath || rawChatPath === "（未設定）") return null;
+  const raw = (await sink.get(rawChatPath)) ?? "";
+  return {
+    notePath,
+    noteContent,
+    rawChatPath,
+    rawChatBody: stripFrontmatter(raw),
+    createdAt: frontmatterField(raw, "created_at"),
+  };
+}
+
+function matchKey(text: string): string {
+  return text.replace(/\s+/g, "").slice(0, TURN_MATCH_CHARS);
+}
+
+/**
+ * 保存済みの会話に続く新しいターンを返す。保存済み本文に含まれる最後のターンより後ろが差分。
+ * どのターンも見つからなければ別の会話とみなして null（呼び出し側で通常の保存にする）。
+ */
+export function findNewTurns(messages: ChatMessage[], storedBody: string): ChatMessage[] | null {
+  const stored = storedBody.replace(/\s+/g, "");
+  let lastKnown = -1;
+  for (let i = 0; i < messages.length; i++) {
+    const key = matchKey(messages[i].text);
+    if (key.length >= TURN_MATCH_MIN_CHARS && stored.includes(key)) lastKnown = i;
+  }
+  if (lastKnown === -1) return null;
+  return messages.slice(lastKnown + 1);
+}
+
+/** distill した差分ノートの本文を、既存ノートの末尾に足す「## 更新 日付」の節にする（見出しは1段下げる） */
+export function buildChatUpdateSection(distilledMd: string, date: string, newTurns: number): string {
+  const body = stripFrontmatter(distilledMd)
+    .trim()
+    .replace(/^(#{1,5}) /gm, "#$1 ");
+  return `## 更新 ${date}（新しいターン ${newTurns}件）\n\n${body}\n`;
+}
@@ -0,0 +1,125 @@
+/**
+ * クリップ済み URL の索引。正規化 URL → Vault 上のノートパスを chrome.storage.local に持ち、
+ * 索引にない URL は保存先の全文検索（Obsidian REST のみ）で frontmatter の url: を照合して補う。
+ */
+
+import { normalizeUrlForDedup } from "@pipelines/url-summary";
+import type { StorageSink } from "./storage-sink";
+
+const STORAGE_KEY_CLIP_INDEX = "tabReaper_clipIndex";
+/** Vault 検索で見つからなかった URL → 検索した時刻。popup を開くたびに同じ URL を検索し直さない */
+const STORAGE_KEY_CLIP_SEARCH_MISSES = "tabReaper_clipSearchMisses";
+const CLIP_DIRS = ["library/clip/", "library/reference/"];
+const SEARCH_CANDIDATES_MAX = 5;
+/** 見つからなかった URL を検索し直すまでの時間（別の端末などで保存された分はこの間は索引に無ければ未クリップ扱い） */
+const SEARCH_MISS_TTL_MS = 24 * 60 * 60 * 1000;
+/** 同時に投げる検索の数 */
+const SEARCH_CONCURRENCY = 4;
+
+export interface ExistingClip {
+  /** Vault 上のノートパス（library/clip/p-…_uid8.md 等） */
+  path: string;
+  date: string;
+}
+
+type ClipIndex = Record<string, ExistingClip>;
+
+async function loadClipIndex(): Promise<ClipIndex> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_CLIP_INDEX);
+  return (o[STORAGE_KEY_CLIP_INDEX] as ClipIndex | undefined) ?? {};
+}
+
+/** 保存に成功したノートを索引に記録する */
+export async function recordClips(entries: Array<{ url: string; path: string }>): Promise<void> {
+  if (entries.length === 0) return;
+  const index = await loadClipIndex();
+  const date = new Date().toISOString();
+  for (const e of entries) index[normalizeUrlForDedup(e.url)] = { path: e.path, date };
+  await chrome.storage.local.set({ [STORAGE_KEY_CLIP_INDEX]: index });
+}
+
+/**
+ * 送信待ちのノートが送る時点で別名になった（to）・書かれなかった（to なし）とき、url の索引を合わせる。
+ * 索引が別のパスを指していればそのまま。
+ */
+export async function updateClipPath(url: string, from: string, to?: string): Promise<void> {
+  const index = await loadClipIndex();
+  const key = normalizeUrlForDedup(url);
+  if (index[key]?.path !== from) return;
+  if (to) index[key] = { ...index[key], path: to };
+  else delete index[key];
+  await chrome.storage.local.set({ [STORAGE_KEY_CLIP_INDEX]: index });
+}
+
+function frontmatterUrl(md: string): string | null {
+  const fm = md.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  const m = fm?.[1].match(/^url:\s*"?(.+?)"?\s*$/m);
+  return m ? m[1] : null;
+}
+
+/** Vault を URL で検索し、frontmatter の url: が一致するクリップを返す */
+async function searchClipInVault(sink: StorageSink, url: string): Promise<ExistingClip | null> {
+  if (!sink.search) return null;
+  const normalized = normalizeUrlForDedup(url);
+  const paths = (await sink.search(url))
+    .filter((p) => CLIP_DIRS.some((d) => p.startsWith(d)) && p.endsWith(".md"))
+    .slice(0, SEARCH_CANDIDATES_MAX);
+  for (const path of paths) {
+    const md = await sink.get(path);
+    const fmUrl = md ? frontmatterUrl(md) : null;
+    if (fmUrl && normalizeUrlForDedup(fmUrl) === normalized) return { path, date: new Date().toISOString() };
+  }
+  return null;
+}
+
+async function loadSearchMisses(): Promise<Record<string, number>> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_CLIP_SEARCH_MISSES);
+  return (o[STORAGE_KEY_CLIP_SEARCH_MISSES] as Record<string, number> | undefined) ?? {};
+}
+
+/**
+ * URL ごとの既存クリップを引く。索引を先に見て、検索できる保存先（sink）があれば残りを Vault 検索で補い索引に足す。
+ * 検索は SEARCH_CONCURRENCY 本ずつ並べ、見つからなかった URL は SEARCH_MISS_TTL_MS の間は検索し直さない。
+ * 検索に失敗した URL は未クリップ扱い。
+ */
+export async function lookupExistingClips(
+  urls: string[],
+  sink: StorageSink | null
+): Promise<Map<string, ExistingClip>> {
+  const index = await loadClipIndex();
+  const found = new Map<string, ExistingClip>();
+  const misses: string[] = [];
+  for (const url of urls) {
+    const hit = index[normalizeUrlForDedup(url)];
+    if (hit) found.set(url, hit);
+    else misses.push(url);
+  }
+  if (!sink?.search) return found;
+  const now = Date.now();
+  const searchMisses = Object.fromEntries(
+    Object.entries(await loadSearchMisses()).filter(([, at]) => now - at < SEARCH_MISS_TTL_MS)
+  );
+  const queue = misses.filter((url) => !(normalizeUrlForDedup(url) in searchMisses));
+  const discovered: Array<{ url: string; path: string }> = [];
+  let searchFailed = false;
+  const worker = async () => {
+    for (let url = queue.shift(); url && !searchFailed; url = queue.shift()) {
+      try {
+        const hit = await searchClipInVault(sink, url);
+        if (!hit) {
+          searchMisses[normalizeUrlForDedup(url)] = now;
+          continue;
+        }
+        found.set(url, hit);
+        discovered.push({ url, path: hit.path });
+      } catch {
+        // 検索 API が使えない場合は索引のみで判定
+        searchFailed = true;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: SEARCH_CONCURRENCY }, worker));
+  await recordClips(discovered);
+  await chrome.storage.local.set({ [STORAGE_KEY_CLIP_SEARCH_MISSES]: searchMisses });
+  return found;
+}
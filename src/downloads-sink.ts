@@ -0,0 +1,130 @@
+/**
+ * ダウンロードフォルダへの保存（chrome.downloads）。ダウンロードフォルダ内のサブフォルダを Vault ルートとして扱う。
+ * ダウンロードでは既存ファイルを読めないので、追記するファイル（day-index）だけは内容を chrome.storage.local に控え、
+ * 毎回全体を書き直す。控えが上限を超えたら、それまでの内容を日時付きの別ファイルに書き出して控えを空から始める。既存ノートを読む機能（チャットの追記・Vault 検索）は使えない。
+ * 同名ファイルの有無は読めないので、新しく作るファイルは uniquify で書いてみて、別名にされたら消して「既存あり」とする。
+ */
+
+import type { StorageSink } from "./storage-sink";
+
+export const STORAGE_KEY_DOWNLOADS_FOLDER = "tabReaper_downloadsFolder";
+const STORAGE_KEY_DOWNLOADS_APPENDED = "tabReaper_downloadsAppended";
+
+export const DEFAULT_DOWNLOADS_FOLDER = "tabReaper";
+/** 追記ファイルの控えの上限（文字数）。超えたら別ファイルに切り出す */
+const APPENDED_MAX_CHARS = 256 * 1024;
+/** 1ファイルのダウンロード完了を待つ上限 */
+const DOWNLOAD_TIMEOUT_MS = 60000;
+
+function toBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** 完了（または中断）まで待ち、保存されたファイルの絶対パスを返す */
+function waitForDownload(id: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      chrome.downloads.onChanged.removeListener(listener);
+      if (error) reject(error);
+      else chrome.downloads.search({ id }).then(([item]) => resolve(item?.filename ?? ""), reject);
+    };
+    const listener = (delta: chrome.downloads.DownloadDelta) => {
+      if (delta.id !== id) return;
+      if (delta.state?.current === "complete") finish();
+      else if (delta.state?.current === "interrupted") finish(new Error(`download interrupted: ${delta.error?.current ?? ""}`));
+    };
+    const timer = setTimeout(() => finish(new Error("download timeout")), DOWNLOAD_TIMEOUT_MS);
+    chrome.downloads.onChanged.addListener(listener);
+    // リスナー登録前に終わっていた場合
+    chrome.downloads.search({ id }).then(([item]) => {
+      if (item?.state === "complete") finish();
+      else if (item?.state === "interrupted") finish(new Error(`download interrupted: ${item.error ?? ""}`));
+    });
+  });
+}
+
+/** Chrome の uniquify は "name.md" を "name (1).md" にする。保存されたファイル名がそうなっていれば同名があった */
+function isUniquifiedName(savedPath: string, path: string): boolean {
+  const saved = savedPath.slice(Math.max(savedPath.lastIndexOf("/"), savedPath.lastIndexOf("\\")) + 1);
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  const dot = name.lastIndexOf(".");
+  const [stem, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+  return saved !== name && saved.startsWith(`${stem} (`) && saved.endsWith(`)${ext}`);
+}
+
+/** "library/day-index.md" → "library/day-index-2026-01-31-235959.md" */
+function rotatedPath(path: string, now: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const stamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+  const dot = path.lastIndexOf(".");
+  return dot > path.lastIndexOf("/") ? `${path.slice(0, dot)}-${stamp}${path.slice(dot)}` : `${path}-${stamp}`;
+}
+
+async function loadAppended(): Promise<Record<string, string>> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_DOWNLOADS_APPENDED);
+  return (o[STORAGE_KEY_DOWNLOADS_APPENDED] as Record<string, string> | undefined) ?? {};
+}
+
+export async function loadDownloadsSink(): Promise<StorageSink> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_DOWNLOADS_FOLDER);
+  const folder =
+    String(o[STORAGE_KEY_DOWNLOADS_FOLDER] || "")
+      .trim()
+      .replace(/^\/+|\/+$/g, "") || DEFAULT_DOWNLOADS_FOLDER;
+  /** 書いたら true。uniquify で同名の既存ファイルを避けて別名にされたら、そのファイルを消して false */
+  const download = async (
+    path: string,
+    data: ArrayBuffer,
+    contentType: string,
+    conflictAction: chrome.downloads.FilenameConflictAction = "overwrite"
+  ): Promise<boolean> => {
+    const id = await chrome.downloads.download({
+      url: `data:${contentType};base64,${toBase64(data)}`,
+      filename: `${folder}/${path}`,
+      conflictAction,
+      saveAs: false,
+    });
+    try {
+      const filename = await waitForDownload(id);
+      if (conflictAction !== "uniquify" || !isUniquifiedName(filename, path)) return true;
+      await chrome.downloads.removeFile(id);
+      return false;
+    } finally {
+      // ダウンロード履歴からは消す（ファイルは残る）
+      await chrome.downloads.erase({ id });
+    }
+  };
+  const encode = (s: string) => new TextEncoder().encode(s).buffer as ArrayBuffer;
+  return {
+    kind: "downloads",
+    healthCheck: async () => true,
+    async put(path, content, contentType = "text/markdown") {
+      await download(path, encode(content), `${contentType};charset=utf-8`);
+    },
+    putIfAbsent: (path, content, contentType = "text/markdown") =>
+      download(path, encode(content), `${contentType};charset=utf-8`, "uniquify"),
+    async putBinary(path, data, contentType) {
+      await download(path, data, contentType);
+    },
+    async append(path, content) {
+      const appended = await loadAppended();
+      let current = appended[path] ?? "";
+      if (current && current.length + content.length > APPENDED_MAX_CHARS) {
+        await download(rotatedPath(path, new Date()), encode(current), "text/markdown;charset=utf-8");
+        current = "";
+      }
+      const next = current + content;
+      await download(path, encode(next), "text/markdown;charset=utf-8");
+      await chrome.storage.local.set({ [STORAGE_KEY_DOWNLOADS_APPENDED]: { ...appended, [path]: next } });
+    },
+    get: async (path) => (await loadAppended())[path] ?? null,
+    // ダウンロードフォルダの中は見えない
+    exists: async () => null,
+  };
+}
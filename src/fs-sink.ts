@@ -0,0 +1,103 @@
+/**
+ * ローカルフォルダへの保存（File System Access API）。設定画面で選んだフォルダを Vault ルートとして扱う。
+ * フォルダのハンドルは IndexedDB に置き、書き込み権限はブラウザの再起動で失われることがあるので
+ * 設定画面・ポップアップのボタン操作で取り直す（権限が無い間の書き込みは送信待ちに溜まる）。
+ */
+
+import { withStore } from "./idb";
+import type { StorageSink } from "./storage-sink";
+
+const HANDLE_KEY = "sinkDirectory";
+
+/** lib.dom にまだ無い権限 API */
+type PermissionedDirectoryHandle = FileSystemDirectoryHandle & {
+  queryPermission(descriptor: { mode: "readwrite" }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: "readwrite" }): Promise<PermissionState>;
+};
+
+async function loadDirectoryHandle(): Promise<PermissionedDirectoryHandle | null> {
+  const handle = await withStore("handles", "readonly", (store) => store.get(HANDLE_KEY));
+  return (handle as PermissionedDirectoryHandle | undefined) ?? null;
+}
+
+/** 保存先フォルダを選ばせて記録し、フォルダ名を返す（設定画面のボタンから。ユーザー操作が要る） */
+export async function pickSinkDirectory(): Promise<string> {
+  const picker = (window as unknown as {
+    showDirectoryPicker(options: { mode: "readwrite"; id?: string }): Promise<FileSystemDirectoryHandle>;
+  }).showDirectoryPicker;
+  const handle = await picker({ mode: "readwrite", id: "tabReaper-vault" });
+  await withStore("handles", "readwrite", (store) => store.put(handle, HANDLE_KEY));
+  return handle.name;
+}
+
+/** 選択済みフォルダの名前と書き込み権限。request が true なら権限を求める（ユーザー操作の中で呼ぶ） */
+export async function sinkDirectoryStatus(
+  request = false
+): Promise<{ name: string; granted: boolean } | null> {
+  const handle = await loadDirectoryHandle();
+  if (!handle) return null;
+  let state = await handle.queryPermission({ mode: "readwrite" });
+  if (state !== "granted" && request) state = await handle.requestPermission({ mode: "readwrite" });
+  return { name: handle.name, granted: state === "granted" };
+}
+
+async function fileHandleAt(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  create: boolean
+): Promise<FileSystemFileHandle> {
+  const segments = path.split("/").filter(Boolean);
+  const name = segments.pop();
+  if (!name) throw new Error(`invalid path: ${path}`);
+  let dir = root;
+  for (const seg of segments) dir = await dir.getDirectoryHandle(seg, { create });
+  return dir.getFileHandle(name, { create });
+}
+
+function isNotFound(e: unknown): boolean {
+  const name = (e as DOMException).name;
+  return name === "NotFoundError" || name === "TypeMismatchError";
+}
+
+async function writeFile(root: FileSystemDirectoryHandle, path: string, data: string | ArrayBuffer): Promise<void> {
+  const writable = await (await fileHandleAt(root, path, true)).createWritable();
+  await writable.write(data);
+  await writable.close();
+}
+
+/** フォルダが選択されていなければ null */
+export async function loadFsSink(): Promise<StorageSink | null> {
+  const root = await loadDirectoryHandle();
+  if (!root) return null;
+  return {
+    kind: "fs",
+    healthCheck: async () => (await root.queryPermission({ mode: "readwrite" }).catch(() => "denied")) === "granted",
+    put: (path, content) => writeFile(root, path, content),
+    putBinary: (path, data) => writeFile(root, path, data),
+    async append(path, content) {
+      const handle = await fileHandleAt(root, path, true);
+      const size = (await handle.getFile()).size;
+      const writable = await handle.createWritable({ keepExistingData: true });
+      await writable.seek(size);
+      await writable.write(content);
+      await writable.close();
+    },
+    async get(path) {
+      try {
+        return await (await (await fileHandleAt(root, path, false)).getFile()).text();
+      } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+      }
+    },
+    async exists(path) {
+      try {
+        await fileHandleAt(root, path, false);
+        return true;
+      } catch (e) {
+        if (isNotFound(e)) return false;
+        throw e;
+      }
+    },
+  };
+}
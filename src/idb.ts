@@ -0,0 +1,42 @@
+/**
+ * 拡張機能の IndexedDB（chrome.storage に置けない大きなデータ・構造化クローンが要る値）。
+ * outbox: Vault への送信待ち、handles: 保存先フォルダの FileSystemDirectoryHandle。
+ */
+
+const DB_NAME = "tabReaper";
+const DB_VERSION = 2;
+
+export type IdbStoreName = "outbox" | "handles";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains("outbox")) db.createObjectStore("outbox", { keyPath: "id", autoIncrement: true });
+      if (!db.objectStoreNames.contains("handles")) db.createObjectStore("handles");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** 1つのトランザクションで request を実行し、完了後に結果を返す */
+export async function withStore<T>(
+  name: IdbStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(name, mode);
+      const req = run(tx.objectStore(name));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * 保存する画像の取得・縮小・重複排除。元の bytes の SHA-256 で索引を引き、同じ内容なら Vault の既存ファイルを使い回す。
+ * 大きい画像は OffscreenCanvas で最大辺を縮め WebP / JPEG に再エンコードする（canvas で撮った動画フレームの data URL も同じ）。
+ */
+
+import type { StorageSink } from "./storage-sink";
+import { putVaultBinaryOrQueue } from "./outbox";
+
+export const STORAGE_KEY_IMAGE_MAX_DIMENSION = "tabReaper_imageMaxDimension";
+export const STORAGE_KEY_IMAGE_QUALITY = "tabReaper_imageQuality";
+export const STORAGE_KEY_IMAGE_FORMAT = "tabReaper_imageFormat";
+const STORAGE_KEY_IMAGE_HASH_INDEX = "tabReaper_imageHashIndex";
+
+export const DEFAULT_IMAGE_MAX_DIMENSION = 1600;
+export const DEFAULT_IMAGE_QUALITY = 0.82;
+
+/** 縮小・再エンコードする前提なので元データは大きめまで受ける */
+const DOWNLOAD_MAX_BYTES = 20 * 1024 * 1024;
+const DOWNLOAD_MIN_BYTES = 100;
+/** これ以下のサイズで最大辺にも収まっていれば再エンコードしない（劣化させる意味が無い） */
+const REENCODE_MIN_BYTES = 300 * 1024;
+
+export type ImageFormat = "webp" | "jpeg";
+
+export interface ImageSettings {
+  /** 長辺の上限（px） */
+  maxDimension: number;
+  /** 再エンコードの品質 0.1〜1 */
+  quality: number;
+  format: ImageFormat;
+}
+
+export async function loadImageSettings(): Promise<ImageSettings> {
+  const o = await chrome.storage.local.get([
+    STORAGE_KEY_IMAGE_MAX_DIMENSION,
+    STORAGE_KEY_IMAGE_QUALITY,
+    STORAGE_KEY_IMAGE_FORMAT,
+  ]);
+  const maxDimension = Number(o[STORAGE_KEY_IMAGE_MAX_DIMENSION]);
+  const quality = Number(o[STORAGE_KEY_IMAGE_QUALITY]);
+  return {
+    maxDimension: Number.isFinite(maxDimension) && maxDimension >= 64 ? Math.floor(maxDimension) : DEFAULT_IMAGE_MAX_DIMENSION,
+    quality: Number.isFinite(quality) && quality >= 0.1 && quality <= 1 ? quality : DEFAULT_IMAGE_QUALITY,
+    format: o[STORAGE_KEY_IMAGE_FORMAT] === "jpeg" ? "jpeg" : "webp",
+  };
+}
+
+type ImageData = { data: ArrayBuffer; contentType: string; ext: string };
+
+function extForContentType(ct: string): string {
+  if (ct.includes("png")) return "png";
+  if (ct.includes("gif")) return "gif";
+  if (ct.includes("webp")) return "webp";
+  return "jpg";
+}
+
+/** 画像URL（data: URL も可）からバイナリをダウンロード。失敗や巨大ファイルは null */
+async function downloadImage(imageUrl: string): Promise<ImageData | null> {
+  try {
+    const res = await fetch(imageUrl);
+    if (!res.ok) return null;
+    const ct = (res.headers.get("content-type") || "image/jpeg").split(";")[0].trim();
+    if (ct.includes("svg")) return null;
+    const data = await res.arrayBuffer();
+    if (data.byteLength > DOWNLOAD_MAX_BYTES || data.byteLength < DOWNLOAD_MIN_BYTES) return null;
+    return { data, contentType: ct, ext: extForContentType(ct) };
+  } catch {
+    return null;
+  }
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * 長辺が上限を超える・サイズが大きい画像を縮小して再エンコードする。GIF（アニメーション）と、
+ * 再エンコードしても小さくならない画像は元のまま。デコードできなければ元のまま返す。
+ */
+async function reencodeImage(image: ImageData, settings: ImageSettings): Promise<ImageData> {
+  if (image.contentType.includes("gif")) return image;
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(new Blob([image.data], { type: image.contentType }));
+  } catch {
+    return image;
+  }
+  try {
+    const scale = Math.min(1, settings.maxDimension / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1 && image.data.byteLength <= REENCODE_MIN_BYTES) return image;
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return image;
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    const type = `image/${settings.format}`;
+    const blob = await canvas.convertToBlob({ type, quality: settings.quality });
+    // WebP 非対応の環境では PNG で返ってくるので、その場合は使わない
+    if (blob.type !== type) return image;
+    if (scale === 1 && blob.size >= image.data.byteLength) return image;
+    return { data: await blob.arrayBuffer(), contentType: type, ext: settings.format === "jpeg" ? "jpg" : "webp" };
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function loadHashIndex(): Promise<Record<string, string>> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_IMAGE_HASH_INDEX);
+  return (o[STORAGE_KEY_IMAGE_HASH_INDEX] as Record<string, string> | undefined) ?? {};
+}
+
+async function recordHash(key: string, filename: string): Promise<void> {
+  const index = await loadHashIndex();
+  index[key] = filename;
+  await chrome.storage.local.set({ [STORAGE_KEY_IMAGE_HASH_INDEX]: index });
+}
+
+/** 書かれなかった（送信待ちを捨てた）画像を索引から外し、次に同じ画像が来たら書き直すようにする */
+export async function forgetImageFiles(paths: string[]): Promise<void> {
+  const filenames = new Set(paths.map((p) => p.slice(p.lastIndexOf("/") + 1)).filter((f) => f.startsWith("img-")));
+  if (filenames.size === 0) return;
+  const index = await loadHashIndex();
+  const kept = Object.fromEntries(Object.entries(index).filter(([, filename]) => !filenames.has(filename)));
+  await chrome.storage.local.set({ [STORAGE_KEY_IMAGE_HASH_INDEX]: kept });
+}
+
+/**
+ * 索引のファイルがまだ保存先にあるか（Vault で消された画像を使い回さない）。確かめられない保存先（ダウンロード）は
+ * ファイル名が内容のハッシュなので索引を信じる。確認に失敗したら false で書き直す
+ */
+async function imageStillExists(sink: StorageSink, path: string): Promise<boolean> {
+  try {
+    return (await sink.exists(path)) ?? true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 画像を dir に保存してファイル名を返す。同じ内容（元 bytes の SHA-256）を保存済みで、そのファイルが保存先に残っていれば
+ * 書かずに既存のファイル名を返す。
+ * ファイル名は img-{ハッシュ先頭16桁}.{ext}。ダウンロードできなければ null、書き込みの失敗は例外。
+ */
+export async function saveImageToVault(
+  sink: StorageSink,
+  dir: string,
+  imageUrl: string,
+  settings: ImageSettings
+): Promise<string | null> {
+  const downloaded = await downloadImage(imageUrl);
+  if (!downloaded) return null;
+  const hash = await sha256Hex(downloaded.data);
+  // 保存先を切り替えたら、前の保存先にあるファイルは使い回せない
+  const indexKey = `${sink.kind}:${hash}`;
+  const known = (await loadHashIndex())[indexKey];
+  if (known && (await imageStillExists(sink, `${dir}/${known}`))) return known;
+  const image = await reencodeImage(downloaded, settings);
+  const filename = `img-${hash.slice(0, 16)}.${image.ext}`;
+  await putVaultBinaryOrQueue(sink, `${dir}/${filename}`, image.data, image.contentType);
+  await recordHash(indexKey, filename);
+  return filename;
+}
@@ -0,0 +1,122 @@
+/**
+ * 保存実行の永続ジョブ。タブごとに到達ステージと途中結果（TabInfo）を chrome.storage.local に残し、
+ * ワーカー停止やエラーで中断した実行を、タブごとに最後に終わったステージの次から再開できるようにする。
+ */
+
+import type { SelectedWindow, TabInfo } from "./tab-info";
+
+export const STORAGE_KEY_PENDING_RUN = "tabReaper_pendingRun";
+const JOB_KEY_PREFIX = "tabReaper_job_";
+
+/** queued → 本文取得 → 要約 → 画像保存 → Vault 書き込み → day-index 追記 */
+export type JobStage = "queued" | "body" | "summarized" | "images" | "written" | "indexed";
+
+const STAGE_ORDER: JobStage[] = ["queued", "body", "summarized", "images", "written", "indexed"];
+
+interface TabJob {
+  stage: JobStage;
+  tab: TabInfo;
+}
+
+/** 実行単位の記録。タブ本体は TabJob 側に持ち、ここにはウィンドウ構成だけを置く */
+interface PendingRun {
+  runId: string;
+  createdAt: string;
+  windows: Array<Omit<SelectedWindow, "tabs"> & { tabIds: number[] }>;
+}
+
+export interface JobTracker {
+  reached(tabId: number, stage: JobStage): boolean;
+  mark(tab: TabInfo, stage: JobStage): Promise<void>;
+  /** 全タブが indexed になったら記録を消す */
+  finish(): Promise<void>;
+}
+
+function jobKey(tabId: number): string {
+  return `${JOB_KEY_PREFIX}${tabId}`;
+}
+
+function createJobTracker(run: PendingRun, stages: Map<number, JobStage>): JobTracker {
+  return {
+    reached(tabId, stage) {
+      const current = stages.get(tabId) ?? "queued";
+      return STAGE_ORDER.indexOf(current) >= STAGE_ORDER.indexOf(stage);
+    },
+    async mark(tab, stage) {
+      stages.set(tab.id, stage);
+      const job: TabJob = { stage, tab };
+      await chrome.storage.local.set({ [jobKey(tab.id)]: job });
+    },
+    async finish() {
+      const done = [...stages.values()].every((s) => s === "indexed");
+      if (done) await clearPendingRun(run);
+    },
+  };
+}
+
+async function clearPendingRun(run: PendingRun): Promise<void> {
+  const tabKeys = run.windows.flatMap((w) => w.tabIds.map(jobKey));
+  await chrome.storage.local.remove([STORAGE_KEY_PENDING_RUN, ...tabKeys]);
+}
+
+/**
+ * 新しい実行を記録する。中断した実行が残っていれば、discardPending（popup で破棄を確認した）でない限り
+ * 例外にして始めない（ショートカット・定時スナップショットが再開待ちのジョブを黙って消さないように）。
+ */
+export async function startPendingRun(
+  byWindow: SelectedWindow[],
+  opts: { discardPending?: boolean } = {}
+): Promise<JobTracker> {
+  const previous = await chrome.storage.local.get(STORAGE_KEY_PENDING_RUN);
+  if (previous[STORAGE_KEY_PENDING_RUN]) {
+    const pending = await countPendingJobs();
+    if (pending > 0 && !opts.discardPending) {
+      throw new Error(`中断した保存（${pending}タブ）があります。ポップアップの「中断した保存を再開」で続きを実行してください`);
+    }
+    await clearPendingRun(previous[STORAGE_KEY_PENDING_RUN] as PendingRun);
+  }
+  const run: PendingRun = {
+    runId: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    windows: byWindow.map(({ tabs, ...w }) => ({ ...w, tabIds: tabs.map((t) => t.id) })),
+  };
+  const stages = new Map<number, JobStage>();
+  const items: Record<string, unknown> = { [STORAGE_KEY_PENDING_RUN]: run };
+  for (const tab of byWindow.flatMap((w) => w.tabs)) {
+    stages.set(tab.id, "queued");
+    items[jobKey(tab.id)] = { stage: "queued", tab } satisfies TabJob;
+  }
+  await chrome.storage.local.set(items);
+  return createJobTracker(run, stages);
+}
+
+/** 未完了の実行を読み出し、永続化されたジョブから byWindow を組み直す */
+export async function loadPendingRun(): Promise<{ byWindow: SelectedWindow[]; tracker: JobTracker } | null> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_PENDING_RUN);
+  const run = o[STORAGE_KEY_PENDING_RUN] as PendingRun | undefined;
+  if (!run) return null;
+  const tabIds = run.windows.flatMap((w) => w.tabIds);
+  const jobs = await chrome.storage.local.get(tabIds.map(jobKey));
+  const stages = new Map<number, JobStage>();
+  const byWindow: SelectedWindow[] = run.windows.map(({ tabIds: ids, ...w }) => {
+    const tabs: TabInfo[] = [];
+    for (const id of ids) {
+      const job = jobs[jobKey(id)] as TabJob | undefined;
+      if (!job) continue;
+      stages.set(id, job.stage);
+      tabs.push(job.tab);
+    }
+    return { ...w, tabs };
+  });
+  return { byWindow: byWindow.filter((w) => w.tabs.length > 0), tracker: createJobTracker(run, stages) };
+}
+
+/** popup 表示用: 未完了の実行があれば day-index 未追記のタブ数を返す */
+export async function countPendingJobs(): Promise<number> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_PENDING_RUN);
+  const run = o[STORAGE_KEY_PENDING_RUN] as PendingRun | undefined;
+  if (!run) return 0;
+  const tabIds = run.windows.flatMap((w) => w.tabIds);
+  const jobs = await chrome.storage.local.get(tabIds.map(jobKey));
+  return tabIds.filter((id) => (jobs[jobKey(id)] as TabJob | undefined)?.stage !== "indexed").length;
+}
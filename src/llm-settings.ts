@@ -0,0 +1,37 @@
+/**
+ * LLM APIキーの保存キーと、担当AI（worker）の解決。
+ */
+
+import { requireModelForRole, getApiKeyForProvider, type APIKeySettings, type AIProvider } from "ai-roles";
+
+export const STORAGE_KEYS = {
+  apiKeyGemini: "tabReaper_apiKeyGemini",
+  apiKeyOpenAI: "tabReaper_apiKeyOpenAI",
+  apiKeyClaude: "tabReaper_apiKeyClaude",
+} as const;
+
+export async function loadApiKeySettings(): Promise<APIKeySettings> {
+  const o = await chrome.storage.local.get([
+    STORAGE_KEYS.apiKeyGemini,
+    STORAGE_KEYS.apiKeyOpenAI,
+    STORAGE_KEYS.apiKeyClaude,
+  ]);
+  return {
+    geminiApiKey: (o[STORAGE_KEYS.apiKeyGemini] || "").trim() || undefined,
+    openaiApiKey: (o[STORAGE_KEYS.apiKeyOpenAI] || "").trim() || undefined,
+    claudeApiKey: (o[STORAGE_KEYS.apiKeyClaude] || "").trim() || undefined,
+  };
+}
+
+/** worker 役のモデルと APIキー。使用可能なキーがなければ null */
+export async function loadWorkerModel(): Promise<{ modelId: string; provider: AIProvider; apiKey: string } | null> {
+  const settings = await loadApiKeySettings();
+  try {
+    const workerModel = requireModelForRole("worker", settings);
+    const apiKey = getApiKeyForProvider(workerModel.provider, settings);
+    if (!apiKey) return null;
+    return { modelId: workerModel.modelId, provider: workerModel.provider, apiKey };
+  } catch {
+    return null;
+  }
+}
@@ -3,6 +3,8 @@
  * HTTP mode (non-encrypted) on localhost to avoid self-signed cert issues in Chrome extensions.
  */
 
+import type { StorageSink } from "./storage-sink";
+
 const DEFAULT_BASE_URL = "http://127.0.0.1:27123";
 
 export const STORAGE_KEY_REST_TOKEN = "tabReaper_obsidianRestToken";
@@ -108,6 +110,44 @@ export async function getVaultFile(
   return res.text();
 }
 
+/** HEAD /vault/{path} — check whether a file exists without downloading it. */
+export async function vaultFileExists(cfg: ObsidianRestConfig, vaultPath: string): Promise<boolean> {
+  const res = await fetch(`${cfg.baseUrl}/vault/${encodeVaultPath(vaultPath)}`, {
+    method: "HEAD",
+    headers: { Authorization: `Bearer ${cfg.token}` },
+  });
+  if (res.status === 404) return false;
+  if (!res.ok) throw new Error(`HEAD /vault/${vaultPath} failed: ${res.status}`);
+  return true;
+}
+
+/** POST /search/simple/ — full-text search. Returns the paths of matching files. */
+export async function searchVaultSimple(cfg: ObsidianRestConfig, query: string): Promise<string[]> {
+  const res = await fetch(`${cfg.baseUrl}/search/simple/?query=${encodeURIComponent(query)}&contextLength=0`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${cfg.token}`, Accept: "application/json" },
+  });
+  if (!res.ok) throw new Error(`POST /search/simple/ failed: ${res.status}`);
+  const rows = (await res.json()) as Array<{ filename?: string }>;
+  return rows.map((r) => r.filename ?? "").filter(Boolean);
+}
+
+/** Obsidian Local REST API を保存先として使う。API Key が未設定なら null */
+export async function loadObsidianRestSink(): Promise<StorageSink | null> {
+  const cfg = await loadRestConfig();
+  if (!cfg) return null;
+  return {
+    kind: "obsidian",
+    healthCheck: () => healthCheck(cfg),
+    put: (path, content, contentType) => putVaultFile(cfg, path, content, contentType),
+    putBinary: (path, data, contentType) => putVaultBinary(cfg, path, data, contentType),
+    append: (path, content) => appendVaultFile(cfg, path, content),
+    get: (path) => getVaultFile(cfg, path),
+    exists: (path) => vaultFileExists(cfg, path),
+    search: (query) => searchVaultSimple(cfg, query),
+  };
+}
+
 function encodeVaultPath(p: string): string {
   return p
     .split("/")
@@ -0,0 +1,70 @@
+/**
+ * service worker から offscreen document（offscreen.html）に処理を頼む側。
+ * PDF 解析（pdf.js はワーカーを使うので DOM のあるページが要る）を offscreen で実行する。
+ */
+
+const OFFSCREEN_URL = "offscreen.html";
+/** 大きな PDF の解析も待てるよう長めに取る */
+const PDF_EXTRACT_TIMEOUT_MS = 180000;
+
+/** PDF から取り出した本文。headings は文書のしおり、無ければページごとの先頭行 */
+export interface PdfText {
+  text: string;
+  headings: Array<{ level: number; text: string }>;
+  pageCount: number;
+  /** 文字数上限で途中までしか読んでいない */
+  truncated: boolean;
+}
+
+export type OffscreenRequest = { target: "offscreen"; type: "pdf:extract"; url: string };
+export type OffscreenResponse<T> = { ok: true; result: T } | { ok: false; error: string };
+
+let creating: Promise<void> | null = null;
+
+async function ensureOffscreenDocument(): Promise<void> {
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [chrome.runtime.getURL(OFFSCREEN_URL)],
+  });
+  if (contexts.length > 0) return;
+  // 同時に呼ばれても createDocument は1回だけ（2回目はエラーになる）
+  creating ??= chrome.offscreen
+    .createDocument({
+      url: OFFSCREEN_URL,
+      reasons: [chrome.offscreen.Reason.WORKERS],
+      justification: "pdf.js で PDF の本文を解析する",
+    })
+    .finally(() => {
+      creating = null;
+    });
+  await creating;
+}
+
+async function sendToOffscreen<T>(request: OffscreenRequest, timeoutMs: number): Promise<T> {
+  await ensureOffscreenDocument();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error("offscreen timeout")), timeoutMs);
+  });
+  try {
+    const res = (await Promise.race([chrome.runtime.sendMessage(request), timeout])) as
+      | OffscreenResponse<T>
+      | undefined;
+    if (!res) throw new Error("offscreen から応答がありません");
+    if (!res.ok) throw new Error(res.error);
+    return res.result;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** PDF の URL を offscreen の pdf.js で解析する。PDF でない・取得できない場合は null */
+export async function fetchPdfText(url: string): Promise<PdfText | null> {
+  try {
+    const pdf = await sendToOffscreen<PdfText>({ target: "offscreen", type: "pdf:extract", url }, PDF_EXTRACT_TIMEOUT_MS);
+    return pdf.text.trim() ? pdf : null;
+  } catch (e) {
+    console.error("pdf extract error:", url, e);
+    return null;
+  }
+}
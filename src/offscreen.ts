@@ -0,0 +1,102 @@
+/**
+ * offscreen document（offscreen.html）。service worker からの依頼を受けて DOM / ワーカーが要る処理をする。
+ * pdf:extract - pdf.js で PDF を開き、ページ順に本文と見出し（しおり or ページ先頭行）を返す。
+ */
+
+import { getDocument, GlobalWorkerOptions, type PDFDocumentProxy } from "pdfjs-dist";
+import type { OffscreenRequest, OffscreenResponse, PdfText } from "./offscreen-client";
+
+GlobalWorkerOptions.workerSrc = chrome.runtime.getURL("dist/pdf.worker.js");
+
+/** これを超えたら残りのページは読まない（要約・raw 保存とも十分な量） */
+const PDF_TEXT_MAX_CHARS = 1_000_000;
+/** 必要な範囲だけ取りに行く（大きな PDF を丸ごと落とさない） */
+const PDF_RANGE_CHUNK_SIZE = 1 << 20;
+const PAGE_HEADING_MAX_LEN = 80;
+
+chrome.runtime.onMessage.addListener((message: OffscreenRequest, _sender, sendResponse) => {
+  if (message?.target !== "offscreen") return;
+  if (message.type === "pdf:extract") {
+    extractPdf(message.url).then(
+      (result) => sendResponse({ ok: true, result } satisfies OffscreenResponse<PdfText>),
+      (e) => sendResponse({ ok: false, error: (e as Error).message } satisfies OffscreenResponse<PdfText>)
+    );
+    return true;
+  }
+});
+
+async function extractPdf(url: string): Promise<PdfText> {
+  const doc = await getDocument({
+    url,
+    withCredentials: true,
+    rangeChunkSize: PDF_RANGE_CHUNK_SIZE,
+    isEvalSupported: false,
+  }).promise;
+  try {
+    const pages: string[] = [];
+    const pageHeadings: Array<{ level: number; text: string }> = [];
+    let chars = 0;
+    let truncated = false;
+    for (let n = 1; n <= doc.numPages; n++) {
+      const page = await doc.getPage(n);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+        .join("")
+        .replace(/[ \t]+\n/g, "\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+      page.cleanup();
+      if (chars + text.length > PDF_TEXT_MAX_CHARS) {
+        truncated = true;
+        pages.push(`（p.${n} 以降の ${doc.numPages - n + 1} ページは文字数上限のため省略）`);
+        break;
+      }
+      chars += text.length;
+      pages.push(`[p.${n}]\n${text}`);
+      const firstLine = text.split("\n").find((l) => l.trim().length > 0)?.trim();
+      if (firstLine) pageHeadings.push({ level: 2, text: `p.${n}: ${firstLine.slice(0, PAGE_HEADING_MAX_LEN)}` });
+    }
+    const outline = await readOutline(doc);
+    return {
+      text: pages.join("\n\n"),
+      headings: outline.length > 0 ? outline : pageHeadings,
+      pageCount: doc.numPages,
+      truncated,
+    };
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/** しおり（文書のアウトライン）を深さ優先で平らにする。ページが引ければ "(p.N)" を付ける */
+async function readOutline(doc: PDFDocumentProxy): Promise<Array<{ level: number; text: string }>> {
+  type OutlineNode = Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>[number];
+  const out: Array<{ level: number; text: string }> = [];
+  const walk = async (nodes: OutlineNode[], level: number) => {
+    for (const node of nodes) {
+      const page = await outlinePage(doc, node.dest);
+      const title = (node.title || "").trim();
+      if (title) out.push({ level, text: page != null ? `${title} (p.${page})` : title });
+      if (node.items?.length) await walk(node.items, Math.min(level + 1, 6));
+    }
+  };
+  try {
+    await walk((await doc.getOutline()) ?? [], 1);
+  } catch {
+    return [];
+  }
+  return out;
+}
+
+async function outlinePage(doc: PDFDocumentProxy, dest: string | unknown[] | null): Promise<number | null> {
+  try {
+    const explicit = typeof dest === "string" ? await doc.getDestination(dest) : dest;
+    const ref = explicit?.[0];
+    if (ref == null) return null;
+    if (typeof ref === "number") return ref + 1;
+    return (await doc.getPageIndex(ref as Parameters<PDFDocumentProxy["getPageIndex"]>[0])) + 1;
+  } catch {
+    return null;
+  }
+}
@@ -3,12 +3,46 @@
  */
 
 import { STORAGE_KEY_REST_TOKEN, STORAGE_KEY_REST_URL, healthCheck } from "./obsidian-rest";
+import { STORAGE_KEYS } from "./llm-settings";
+import { STORAGE_KEY_POST_SAVE_ACTION } from "./post-save";
+import { STORAGE_KEY_QUOTE_COMMENTARY } from "./quote-clip";
+import { STORAGE_KEY_DOMAIN_RULES, type DomainRule } from "./rules";
+import { STORAGE_KEY_TWITTER_SCROLL_CAPTURE } from "./twitter";
+import {
+  STORAGE_KEY_IMAGE_MAX_DIMENSION,
+  STORAGE_KEY_IMAGE_QUALITY,
+  STORAGE_KEY_IMAGE_FORMAT,
+  DEFAULT_IMAGE_MAX_DIMENSION,
+  DEFAULT_IMAGE_QUALITY,
+} from "./images";
+import { STORAGE_KEY_ARCHIVE_MODE } from "./archive";
+import { STORAGE_KEY_SINK_KIND, type SinkKind } from "./storage-sink";
+import { STORAGE_KEY_WRITE_MODE, DEFAULT_WRITE_MODE } from "./write-mode";
+import { pickSinkDirectory, sinkDirectoryStatus } from "./fs-sink";
+import { STORAGE_KEY_DOWNLOADS_FOLDER, DEFAULT_DOWNLOADS_FOLDER } from "./downloads-sink";
+import {
+  STORAGE_KEY_WEBDAV_URL,
+  STORAGE_KEY_WEBDAV_USER,
+  STORAGE_KEY_WEBDAV_PASSWORD,
+  webdavHealthCheck,
+} from "./webdav-sink";
+import type { SourceType } from "./tab-info";
+import {
+  STORAGE_KEY_SNAPSHOT_ENABLED,
+  STORAGE_KEY_SNAPSHOT_TIME,
+  STORAGE_KEY_SNAPSHOT_SUMMARIZE_DAYS,
+  DEFAULT_SNAPSHOT_TIME,
+} from "./snapshot";
 
-const STORAGE_KEYS = {
-  apiKeyGemini: "tabReaper_apiKeyGemini",
-  apiKeyOpenAI: "tabReaper_apiKeyOpenAI",
-  apiKeyClaude: "tabReaper_apiKeyClaude",
-} as const;
+const storageSink = document.getElementById("storageSink") as HTMLSelectElement;
+const pickFolderBtn = document.getElementById("pickFolderBtn") as HTMLButtonElement;
+const statusFolder = document.getElementById("statusFolder") as HTMLSpanElement;
+const downloadsFolder = document.getElementById("downloadsFolder") as HTMLInputElement;
+const webdavUrl = document.getElementById("webdavUrl") as HTMLInputElement;
+const webdavUser = document.getElementById("webdavUser") as HTMLInputElement;
+const webdavPassword = document.getElementById("webdavPassword") as HTMLInputElement;
+const testWebdavBtn = document.getElementById("testWebdavBtn") as HTMLButtonElement;
+const webdavMessage = document.getElementById("webdavMessage") as HTMLSpanElement;
 
 const obsidianToken = document.getElementById("obsidianToken") as HTMLInputElement;
 const obsidianUrl = document.getElementById("obsidianUrl") as HTMLInputElement;
@@ -22,6 +56,19 @@ const apiKeyClaude = document.getElementById("apiKeyClaude") as HTMLInputElement
 const statusGemini = document.getElementById("statusGemini") as HTMLSpanElement;
 const statusOpenAI = document.getElementById("statusOpenAI") as HTMLSpanElement;
 const statusClaude = document.getElementById("statusClaude") as HTMLSpanElement;
+const postSaveAction = document.getElementById("postSaveAction") as HTMLSelectElement;
+const quoteCommentary = document.getElementById("quoteCommentary") as HTMLInputElement;
+const twitterScrollCapture = document.getElementById("twitterScrollCapture") as HTMLInputElement;
+const imageMaxDimension = document.getElementById("imageMaxDimension") as HTMLInputElement;
+const imageQuality = document.getElementById("imageQuality") as HTMLInputElement;
+const imageFormat = document.getElementById("imageFormat") as HTMLSelectElement;
+const archiveMode = document.getElementById("archiveMode") as HTMLSelectElement;
+const writeMode = document.getElementById("writeMode") as HTMLSelectElement;
+const snapshotEnabled = document.getElementById("snapshotEnabled") as HTMLInputElement;
+const snapshotTime = document.getElementById("snapshotTime") as HTMLInputElement;
+const snapshotSummarizeDays = document.getElementById("snapshotSummarizeDays") as HTMLInputElement;
+const domainRulesEl = document.getElementById("domainRules") as HTMLDivElement;
+const addRuleBtn = document.getElementById("addRuleBtn") as HTMLButtonElement;
 const saveBtn = document.getElementById("saveBtn") as HTMLButtonElement;
 const messageEl = document.getElementById("message") as HTMLSpanElement;
 
@@ -42,15 +89,124 @@ function updateKeyStatus(el: HTMLSpanElement, value: string) {
   el.classList.toggle("has-key", !!v);
 }
 
+const SOURCE_TYPE_OPTIONS: Array<[SourceType | "", string]> = [
+  ["", "種別: 自動"],
+  ["web", "web"],
+  ["blog", "blog"],
+  ["x", "x"],
+  ["youtube", "youtube"],
+  ["paper", "paper"],
+];
+
+const RULE_FLAGS: Array<["exclude" | "skipSummary" | "noRaw" | "captureImages", string]> = [
+  ["exclude", "除外"],
+  ["skipSummary", "要約しない"],
+  ["noRaw", "本文を保存しない"],
+  ["captureImages", "画像を取り込む"],
+];
+
+/** ルール1行分の入力欄。値は save 時に DOM から読み戻す */
+function addRuleRow(rule: DomainRule = { pattern: "" }) {
+  const row = document.createElement("div");
+  row.className = "rule-row";
+  const pattern = document.createElement("input");
+  pattern.type = "text";
+  pattern.className = "key-input";
+  pattern.dataset.field = "pattern";
+  pattern.placeholder = "example.com";
+  pattern.value = rule.pattern;
+  const sourceType = document.createElement("select");
+  sourceType.className = "key-input";
+  sourceType.dataset.field = "sourceType";
+  for (const [value, label] of SOURCE_TYPE_OPTIONS) {
+    const option = document.createElement("option");
+    option.value = value;
+    option.textContent = label;
+    sourceType.appendChild(option);
+  }
+  sourceType.value = rule.sourceType ?? "";
+  const vaultDir = document.createElement("input");
+  vaultDir.type = "text";
+  vaultDir.className = "key-input";
+  vaultDir.dataset.field = "vaultDir";
+  vaultDir.placeholder = "保存先（既定: library/clip）";
+  vaultDir.value = rule.vaultDir ?? "";
+  row.appendChild(pattern);
+  row.appendChild(sourceType);
+  row.appendChild(vaultDir);
+  for (const [field, label] of RULE_FLAGS) {
+    const flag = document.createElement("label");
+    flag.className = "rule-flag";
+    const checkbox = document.createElement("input");
+    checkbox.type = "checkbox";
+    checkbox.dataset.field = field;
+    checkbox.checked = rule[field] === true;
+    flag.appendChild(checkbox);
+    flag.appendChild(document.createTextNode(label));
+    row.appendChild(flag);
+  }
+  const remove = document.createElement("button");
+  remove.type = "button";
+  remove.className = "rule-remove";
+  remove.textContent = "削除";
+  remove.addEventListener("click", () => row.remove());
+  row.appendChild(remove);
+  domainRulesEl.appendChild(row);
+}
+
+/** パターンが空の行は捨てる */
+function readDomainRules(): DomainRule[] {
+  const rules: DomainRule[] = [];
+  domainRulesEl.querySelectorAll<HTMLDivElement>(".rule-row").forEach((row) => {
+    const field = <T extends HTMLElement>(name: string) => row.querySelector<T>(`[data-field="${name}"]`)!;
+    const pattern = field<HTMLInputElement>("pattern").value.trim();
+    if (!pattern) return;
+    const rule: DomainRule = { pattern };
+    const sourceType = field<HTMLSelectElement>("sourceType").value;
+    if (sourceType) rule.sourceType = sourceType as SourceType;
+    const vaultDir = field<HTMLInputElement>("vaultDir").value.trim();
+    if (vaultDir) rule.vaultDir = vaultDir;
+    for (const [name] of RULE_FLAGS) {
+      if (field<HTMLInputElement>(name).checked) rule[name] = true;
+    }
+    rules.push(rule);
+  });
+  return rules;
+}
+
 async function load() {
   const o = await chrome.storage.local.get([
+    STORAGE_KEY_SINK_KIND,
+    STORAGE_KEY_DOWNLOADS_FOLDER,
+    STORAGE_KEY_WEBDAV_URL,
+    STORAGE_KEY_WEBDAV_USER,
+    STORAGE_KEY_WEBDAV_PASSWORD,
     STORAGE_KEY_REST_TOKEN,
     STORAGE_KEY_REST_URL,
     STORAGE_KEYS.apiKeyGemini,
     STORAGE_KEYS.apiKeyOpenAI,
     STORAGE_KEYS.apiKeyClaude,
+    STORAGE_KEY_POST_SAVE_ACTION,
+    STORAGE_KEY_QUOTE_COMMENTARY,
+    STORAGE_KEY_TWITTER_SCROLL_CAPTURE,
+    STORAGE_KEY_IMAGE_MAX_DIMENSION,
+    STORAGE_KEY_IMAGE_QUALITY,
+    STORAGE_KEY_IMAGE_FORMAT,
+    STORAGE_KEY_ARCHIVE_MODE,
+    STORAGE_KEY_WRITE_MODE,
+    STORAGE_KEY_DOMAIN_RULES,
+    STORAGE_KEY_SNAPSHOT_ENABLED,
+    STORAGE_KEY_SNAPSHOT_TIME,
+    STORAGE_KEY_SNAPSHOT_SUMMARIZE_DAYS,
     "tabReaper_apiKey",
   ]);
+  storageSink.value = o[STORAGE_KEY_SINK_KIND] || "obsidian";
+  downloadsFolder.value = o[STORAGE_KEY_DOWNLOADS_FOLDER] || "";
+  webdavUrl.value = o[STORAGE_KEY_WEBDAV_URL] || "";
+  webdavUser.value = o[STORAGE_KEY_WEBDAV_USER] || "";
+  webdavPassword.value = o[STORAGE_KEY_WEBDAV_PASSWORD] || "";
+  showSinkRows();
+  await refreshFolderStatus();
   obsidianToken.value = o[STORAGE_KEY_REST_TOKEN] || "";
   obsidianUrl.value = o[STORAGE_KEY_REST_URL] || "";
   updateKeyStatus(statusObsidian, obsidianToken.value);
@@ -63,24 +219,63 @@ async function load() {
   updateKeyStatus(statusGemini, apiKeyGemini.value);
   updateKeyStatus(statusOpenAI, apiKeyOpenAI.value);
   updateKeyStatus(statusClaude, apiKeyClaude.value);
+  postSaveAction.value = o[STORAGE_KEY_POST_SAVE_ACTION] || "none";
+  quoteCommentary.checked = o[STORAGE_KEY_QUOTE_COMMENTARY] === true;
+  twitterScrollCapture.checked = o[STORAGE_KEY_TWITTER_SCROLL_CAPTURE] === true;
+  imageMaxDimension.value = String(o[STORAGE_KEY_IMAGE_MAX_DIMENSION] ?? DEFAULT_IMAGE_MAX_DIMENSION);
+  imageQuality.value = String(o[STORAGE_KEY_IMAGE_QUALITY] ?? DEFAULT_IMAGE_QUALITY);
+  imageFormat.value = o[STORAGE_KEY_IMAGE_FORMAT] === "jpeg" ? "jpeg" : "webp";
+  archiveMode.value = o[STORAGE_KEY_ARCHIVE_MODE] || "off";
+  writeMode.value = o[STORAGE_KEY_WRITE_MODE] || DEFAULT_WRITE_MODE;
+  domainRulesEl.innerHTML = "";
+  for (const rule of (o[STORAGE_KEY_DOMAIN_RULES] ?? []) as DomainRule[]) addRuleRow(rule);
+  snapshotEnabled.checked = o[STORAGE_KEY_SNAPSHOT_ENABLED] === true;
+  snapshotTime.value = o[STORAGE_KEY_SNAPSHOT_TIME] || DEFAULT_SNAPSHOT_TIME;
+  snapshotSummarizeDays.value = String(o[STORAGE_KEY_SNAPSHOT_SUMMARIZE_DAYS] ?? 0);
 }
 
-function save() {
+async function save() {
   const token = obsidianToken.value.trim();
   const url = obsidianUrl.value.trim();
-  if (!token) {
+  const sinkKind = storageSink.value as SinkKind;
+  if (sinkKind === "obsidian" && !token) {
     showMessage("Obsidian REST API Key は必須です", true);
     return;
   }
+  if (sinkKind === "fs" && !(await sinkDirectoryStatus())) {
+    showMessage("保存先のフォルダを選択してください", true);
+    return;
+  }
+  if (sinkKind === "webdav" && !webdavUrl.value.trim()) {
+    showMessage("WebDAV の URL を入力してください", true);
+    return;
+  }
   const keyGemini = apiKeyGemini.value.trim();
   const keyOpenAI = apiKeyOpenAI.value.trim();
   const keyClaude = apiKeyClaude.value.trim();
   chrome.storage.local.set({
+    [STORAGE_KEY_SINK_KIND]: sinkKind,
+    [STORAGE_KEY_DOWNLOADS_FOLDER]: downloadsFolder.value.trim() || DEFAULT_DOWNLOADS_FOLDER,
+    [STORAGE_KEY_WEBDAV_URL]: webdavUrl.value.trim(),
+    [STORAGE_KEY_WEBDAV_USER]: webdavUser.value.trim(),
+    [STORAGE_KEY_WEBDAV_PASSWORD]: webdavPassword.value,
     [STORAGE_KEY_REST_TOKEN]: token,
     [STORAGE_KEY_REST_URL]: url,
     [STORAGE_KEYS.apiKeyGemini]: keyGemini,
     [STORAGE_KEYS.apiKeyOpenAI]: keyOpenAI,
     [STORAGE_KEYS.apiKeyClaude]: keyClaude,
+    [STORAGE_KEY_POST_SAVE_ACTION]: postSaveAction.value,
+    [STORAGE_KEY_QUOTE_COMMENTARY]: quoteCommentary.checked,
+    [STORAGE_KEY_TWITTER_SCROLL_CAPTURE]: twitterScrollCapture.checked,
+    [STORAGE_KEY_IMAGE_MAX_DIMENSION]: Math.max(64, Math.floor(Number(imageMaxDimension.value) || DEFAULT_IMAGE_MAX_DIMENSION)),
+    [STORAGE_KEY_IMAGE_QUALITY]: Math.min(1, Math.max(0.1, Number(imageQuality.value) || DEFAULT_IMAGE_QUALITY)),
+    [STORAGE_KEY_IMAGE_FORMAT]: imageFormat.value,
+    [STORAGE_KEY_ARCHIVE_MODE]: archiveMode.value,
+    [STORAGE_KEY_WRITE_MODE]: writeMode.value,
+    [STORAGE_KEY_DOMAIN_RULES]: readDomainRules(),
+    [STORAGE_KEY_SNAPSHOT_ENABLED]: snapshotEnabled.checked,
+    [STORAGE_KEY_SNAPSHOT_TIME]: snapshotTime.value || DEFAULT_SNAPSHOT_TIME,
+    [STORAGE_KEY_SNAPSHOT_SUMMARIZE_DAYS]: Math.max(0, Math.floor(Number(snapshotSummarizeDays.value) || 0)),
   });
   updateKeyStatus(statusObsidian, token);
   updateKeyStatus(statusGemini, keyGemini);
@@ -104,11 +299,56 @@ async function testConnection() {
   connectionMessage.className = ok ? "message" : "message error";
 }
 
+/** 選んだ保存先の設定行だけを出す */
+function showSinkRows() {
+  document.querySelectorAll<HTMLElement>("[data-sink]").forEach((el) => {
+    el.hidden = el.dataset.sink !== storageSink.value;
+  });
+}
+
+async function refreshFolderStatus() {
+  const status = await sinkDirectoryStatus().catch(() => null);
+  statusFolder.textContent = !status
+    ? "未選択"
+    : status.granted
+      ? `${status.name}（書き込み可）`
+      : `${status.name}（権限なし: もう一度選択してください）`;
+}
+
+async function pickFolder() {
+  try {
+    await pickSinkDirectory();
+    await sinkDirectoryStatus(true);
+  } catch (e) {
+    // 選択ダイアログを閉じた場合は何もしない
+    if ((e as DOMException).name !== "AbortError") showMessage(`フォルダを選択できません: ${(e as Error).message}`, true);
+  }
+  await refreshFolderStatus();
+}
+
+async function testWebdav() {
+  const baseUrl = webdavUrl.value.trim().replace(/\/+$/, "");
+  if (!baseUrl) {
+    webdavMessage.textContent = "URL を入力してください";
+    webdavMessage.className = "message error";
+    return;
+  }
+  webdavMessage.textContent = "接続中...";
+  webdavMessage.className = "message";
+  const ok = await webdavHealthCheck({ baseUrl, user: webdavUser.value.trim(), password: webdavPassword.value });
+  webdavMessage.textContent = ok ? "接続OK" : "接続失敗（URL・ユーザー名・パスワードを確認）";
+  webdavMessage.className = ok ? "message" : "message error";
+}
+
+storageSink.addEventListener("change", showSinkRows);
+pickFolderBtn.addEventListener("click", pickFolder);
+testWebdavBtn.addEventListener("click", testWebdav);
 obsidianToken.addEventListener("input", () => updateKeyStatus(statusObsidian, obsidianToken.value));
 apiKeyGemini.addEventListener("input", () => updateKeyStatus(statusGemini, apiKeyGemini.value));
 apiKeyOpenAI.addEventListener("input", () => updateKeyStatus(statusOpenAI, apiKeyOpenAI.value));
 apiKeyClaude.addEventListener("input", () => updateKeyStatus(statusClaude, apiKeyClaude.value));
 testConnectionBtn.addEventListener("click", testConnection);
+addRuleBtn.addEventListener("click", () => addRuleRow());
 saveBtn.addEventListener("click", save);
 
 load();
@@ -0,0 +1,176 @@
+/**
+ * 保存先に繋がらないときの送信待ち（IndexedDB）。Vault への書き込みを古い順に溜めておき、
+ * 次に接続できたとき（保存開始時・定期アラーム・popup の再送）にその順で送る。
+ * 送信待ちが残っている間の書き込みは、順序（day-index の追記など）を保つため直接送らずその後ろに並べる。
+ */
+
+import { withStore } from "./idb";
+import { loadStorageSink, type StorageSink } from "./storage-sink";
+import { putNewFile, relinkPath, noteName, type WriteMode } from "./write-mode";
+import { appendRunWriteConflicts } from "./run-status";
+import { updateClipPath } from "./clip-index";
+
+export const OUTBOX_ALARM_NAME = "tabReaper-outbox";
+/** 送信待ちがある間、接続できるか確かめる間隔 */
+const OUTBOX_RETRY_MINUTES = 1;
+
+/** 新しく作るファイルの持ち主のタブ。送る時点で衝突したら実行結果とリンクの付け替えに使う */
+export type OutboxTabRef = { tabId: number; title: string | null; url: string };
+
+type PutEntry = {
+  kind: "put";
+  content: string;
+  contentType: string;
+  /** 新しく作るファイルは送る時点の既存ファイルに対して書き込みモードを当てる（無ければ上書き） */
+  writeMode?: WriteMode;
+  tab?: OutboxTabRef;
+};
+
+type OutboxEntry = { id?: number; path: string; createdAt: string } & (
+  | PutEntry
+  | { kind: "putBinary"; data: ArrayBuffer; contentType: string }
+  | { kind: "append"; content: string }
+);
+
+export async function countOutbox(): Promise<number> {
+  return withStore("outbox", "readonly", (store) => store.count());
+}
+
+/** 送信待ちをすべて捨てる。捨てた書き込みのパスを返す（画像の重複索引から外すのに使う） */
+export async function discardOutbox(): Promise<string[]> {
+  const entries = await withStore("outbox", "readonly", (store) => store.getAll() as IDBRequest<OutboxEntry[]>);
+  await withStore("outbox", "readwrite", (store) => store.clear());
+  await chrome.alarms.clear(OUTBOX_ALARM_NAME);
+  return entries.map((e) => e.path);
+}
+
+/** 送って、書いたパスを返す（書き込みモードで別名になればそのパス、create で書かなければ null） */
+async function sendEntry(sink: StorageSink, entry: OutboxEntry): Promise<string | null> {
+  if (entry.kind === "put") {
+    if (!entry.writeMode) await sink.put(entry.path, entry.content, entry.contentType);
+    else return putNewFile(sink, entry.path, entry.content, entry.contentType, entry.writeMode);
+  } else if (entry.kind === "putBinary") {
+    await sink.putBinary(entry.path, entry.data, entry.contentType);
+  } else {
+    await sink.append(entry.path, entry.content);
+  }
+  return entry.path;
+}
+
+/** 残っている送信待ちの本文（要約の raw_content・day-index の追記など）を書き換える */
+async function rewriteQueuedContent(rewrite: (content: string) => string): Promise<void> {
+  await withStore("outbox", "readwrite", (store) => {
+    const req = store.openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      const entry = cursor.value as OutboxEntry;
+      if (entry.kind !== "putBinary") {
+        const content = rewrite(entry.content);
+        if (content !== entry.content) cursor.update({ ...entry, content });
+      }
+      cursor.continue();
+    };
+    return req;
+  });
+}
+
+/**
+ * 送信待ちから送った新規ファイルが既存とぶつかったとき。後に並ぶ書き込みのリンク・クリップ索引を
+ * 書いた先に合わせ（書かなかったノートは day-index で URL リンクにする）、衝突を直近の実行結果に足す。
+ */
+async function settleQueuedConflict(entry: OutboxEntry & PutEntry, written: string | null): Promise<void> {
+  const tab = entry.tab;
+  if (written) {
+    await rewriteQueuedContent((content) => relinkPath(content, entry.path, written));
+  } else if (tab) {
+    const link = `[[${noteName(entry.path)}]]`;
+    await rewriteQueuedContent((content) => content.split(link).join(`[${tab.title || "（無題）"}](${tab.url})`));
+  }
+  if (!tab) return;
+  await updateClipPath(tab.url, entry.path, written ?? undefined);
+  await appendRunWriteConflicts([
+    written
+      ? { tabId: tab.tabId, title: tab.title, path: entry.path, resolution: "renamed", writtenPath: written }
+      : { tabId: tab.tabId, title: tab.title, path: entry.path, resolution: "skipped" },
+  ]);
+}
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * 送信待ちを古い順に送り、送れた件数を返す。失敗したらそこで止めて例外（残りは次回）。
+ * 保存実行・アラーム・popup から同時に呼ばれても送信は1本にまとめる。
+ */
+export function flushOutbox(sink: StorageSink): Promise<number> {
+  flushing ??= (async () => {
+    try {
+      let sent = 0;
+      for (;;) {
+        const [entry] = await withStore("outbox", "readonly", (store) => store.getAll(null, 1) as IDBRequest<OutboxEntry[]>);
+        if (!entry) break;
+        const written = await sendEntry(sink, entry);
+        await withStore("outbox", "readwrite", (store) => store.delete(entry.id!));
+        if (entry.kind === "put" && written !== entry.path) await settleQueuedConflict(entry, written);
+        sent++;
+      }
+      await chrome.alarms.clear(OUTBOX_ALARM_NAME);
+      return sent;
+    } finally {
+      flushing = null;
+    }
+  })();
+  return flushing;
+}
+
+/** アラーム・popup の再送用。保存先に書き込めなければ null、書き込めれば送れた件数 */
+export async function flushOutboxIfReachable(): Promise<number | null> {
+  const sink = await loadStorageSink();
+  if (!sink || !(await sink.healthCheck())) return null;
+  return flushOutbox(sink);
+}
+
+/**
+ * 送信待ちが無ければ直接書き込み、失敗して保存先にも繋がらない（未起動・権限切れ）なら送信待ちに入れる。
+ * 保存先には繋がるのに失敗した場合（REST API のエラー等）はそのまま例外。
+ * 戻り値は書いたパス（送信待ちに入れたときは元のパス。衝突は送る時点で settleQueuedConflict が扱う）。
+ */
+async function writeOrQueue(sink: StorageSink, entry: OutboxEntry): Promise<string | null> {
+  if ((await countOutbox()) === 0) {
+    try {
+      return await sendEntry(sink, entry);
+    } catch (e) {
+      if (await sink.healthCheck()) throw e;
+    }
+  }
+  await withStore("outbox", "readwrite", (store) => store.add(entry));
+  await chrome.alarms.create(OUTBOX_ALARM_NAME, { periodInMinutes: OUTBOX_RETRY_MINUTES });
+  return entry.path;
+}
+
+/**
+ * ファイルを書く。opts.writeMode を渡すと新しく作るファイルとして書き込みモードを当て、
+ * 書いたパス（別名になればそのパス、create で既存があれば null）を返す。
+ */
+export async function putVaultFileOrQueue(
+  sink: StorageSink,
+  path: string,
+  content: string,
+  contentType = "text/markdown",
+  opts: { writeMode?: WriteMode; tab?: OutboxTabRef } = {}
+): Promise<string | null> {
+  return writeOrQueue(sink, { kind: "put", path, content, contentType, ...opts, createdAt: new Date().toISOString() });
+}
+
+export async function putVaultBinaryOrQueue(
+  sink: StorageSink,
+  path: string,
+  data: ArrayBuffer,
+  contentType: string
+): Promise<void> {
+  await writeOrQueue(sink, { kind: "putBinary", path, data, contentType, createdAt: new Date().toISOString() });
+}
+
+export async function appendVaultFileOrQueue(sink: StorageSink, path: string, content: string): Promise<void> {
+  await writeOrQueue(sink, { kind: "append", path, content, createdAt: new Date().toISOString() });
+}
@@ -0,0 +1,1147 @@
+/**
+ * executeScript でページコンテキストに注入する関数群。
+ * 各関数はシリアライズされて注入されるため、外部の関数・定数を参照せず自己完結させること。
+ */
+
+/** allFrames で取得した結果を合成するための iframe の位置の印。frame は iframe の src */
+export type FrameSlot = { frame: string };
+
+/** Twitter/X の1ツイート。postedAt は ISO 8601（time 要素の datetime） */
+export type TwitterTweet = {
+  statusId: string | null;
+  url: string | null;
+  handle: string;
+  displayName: string;
+  postedAt: string | null;
+  text: string;
+  quote: { handle: string; displayName: string; text: string; url: string | null } | null;
+  card: { title: string; url: string } | null;
+  images: Array<{ src: string; alt: string }>;
+  /** 返信・リポスト・いいね等の数（role="group" の aria-label そのまま） */
+  metrics: string;
+};
+
+/**
+ * スレッドの取得結果。partial はスクロール取得が本人の続きの終わりまで届かずに止まった
+ * （タブが非表示で描画されない・時間切れ）。
+ */
+export type TwitterThread = { tweets: TwitterTweet[]; partial: boolean };
+
+/**
+ * ページコンテキストで実行する。本ツイート＋同一作者のスレッド続きを構造化して返す。
+ * scroll が true ならタブをスクロールしながら集める。タイムラインは仮想スクロールで画面外の article が DOM から
+ * 消えるため、描画されるたびにステータス ID で重複を除いて貯め、作者以外のツイートが出た（本人の続きが終わった）・
+ * 新しいツイートが出てこない・時間 / 件数の上限で止めて元の位置に戻す。scroll が false なら今描画されている分だけ。
+ * 非表示のタブは描画も IntersectionObserver も止まって続きが読み込まれないので、その場合と時間切れは partial にする。
+ * executeScript に渡すため自己完結した関数にすること。
+ */
+export async function extractTwitterThreadInPage(
+  scroll: boolean,
+  maxMs: number,
+  maxTweets: number
+): Promise<TwitterThread> {
+  const sel = 'article[data-testid="tweet"]';
+  const IDLE_ROUNDS_TO_STOP = 5;
+  const SCROLL_WAIT_MS = 800;
+
+  const absUrl = (href: string | null | undefined): string | null => {
+    if (!href) return null;
+    try {
+      return new URL(href, location.href).href;
+    } catch {
+      return null;
+    }
+  };
+
+  /** 引用ツイートの枠（本文・作者・時刻を持つ role="link" の入れ子） */
+  const quoteBox = (art: Element): Element | null =>
+    Array.from(art.querySelectorAll('div[role="link"]')).find((el) => el.querySelector('[data-testid="User-Name"]')) ??
+    null;
+
+  /** root 内で、除外する枠（引用ツイート）の外にある最初の要素 */
+  const own = (root: Element, selector: string, exclude: Element | null): Element | null =>
+    Array.from(root.querySelectorAll(selector)).find((el) => !exclude?.contains(el)) ?? null;
+
+  /** 絵文字は alt に、URL は省略記号を外して展開する */
+  const tweetText = (el: Element | null): string => {
+    if (!el) return "";
+    const walk = (node: Node): string => {
+      if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? "";
+      if (node.nodeType !== Node.ELEMENT_NODE) return "";
+      const child = node as Element;
+      if (child.tagName === "IMG") return child.getAttribute("alt") ?? "";
+      if (child.tagName === "A") {
+        const text = (child.textContent ?? "").trim();
+        return /^https?:\/\//.test(text) ? text.replace(/…$/, "") : text;
+      }
+      return Array.from(child.childNodes).map(walk).join("");
+    };
+    return walk(el).trim();
+  };
+
+  const userName = (root: Element, exclude: Element | null): { handle: string; displayName: string } => {
+    const box = own(root, '[data-testid="User-Name"]', exclude);
+    if (!box) return { handle: "", displayName: "" };
+    const spans = Array.from(box.querySelectorAll("span")).map((s) => (s.textContent ?? "").trim());
+    const handle =
+      spans.find((t) => /^@\w+$/.test(t))?.slice(1) ??
+      (box.querySelector('a[href^="/"]')?.getAttribute("href") ?? "").split("/")[1] ??
+      "";
+    const displayName = spans.find((t) => t && !t.startsWith("@") && t !== "·") ?? "";
+    return { handle, displayName };
+  };
+
+  const parseTweet = (art: Element): TwitterTweet => {
+    const quoteEl = quoteBox(art);
+    const { handle, displayName } = userName(art, quoteEl);
+    const time = own(art, "time", quoteEl);
+    const statusHref = time?.closest("a")?.getAttribute("href") ?? "";
+    const statusId = statusHref.match(/\/status\/(\d+)/)?.[1] ?? null;
+
+    let quote: TwitterTweet["quote"] = null;
+    if (quoteEl) {
+      const q = userName(quoteEl, null);
+      const qHref = quoteEl.querySelector("time")?.closest("a")?.getAttribute("href");
+      quote = {
+        ...q,
+        text: tweetText(quoteEl.querySelector('[data-testid="tweetText"]')),
+        url: absUrl(qHref),
+      };
+    }
+
+    let card: TwitterTweet["card"] = null;
+    const cardEl = own(art, '[data-testid="card.wrapper"]', quoteEl);
+    const cardUrl = absUrl(cardEl?.querySelector("a[href]")?.getAttribute("href"));
+    if (cardEl && cardUrl) {
+      const detail = cardEl.querySelector('[data-testid$=".detail"]');
+      const title = ((detail ?? cardEl).textContent ?? "").replace(/\s+/g, " ").trim();
+      card = { title: title || cardUrl, url: cardUrl };
+    }
+
+    const images = Array.from(art.querySelectorAll('[data-testid="tweetPhoto"] img'))
+      .filter((img) => !quoteEl?.contains(img))
+      .map((img) => {
+        let src = (img as HTMLImageElement).src;
+        if (src.includes("name=")) src = src.replace(/name=\w+/, "name=large");
+        return { src, alt: (img.getAttribute("alt") ?? "").trim() };
+      })
+      .filter((img) => img.src.startsWith("http"));
+
+    return {
+      statusId,
+      url: statusId ? absUrl(statusHref) : null,
+      handle,
+      displayName,
+      postedAt: time?.getAttribute("datetime") ?? null,
+      text: tweetText(own(art, '[data-testid="tweetText"]', quoteEl)),
+      quote,
+      card,
+      images,
+      metrics: (own(art, '[role="group"][aria-label]', quoteEl)?.getAttribute("aria-label") ?? "").trim(),
+    };
+  };
+
+  const startY = window.scrollY;
+  const seen = new Set<string>();
+  const tweets: TwitterTweet[] = [];
+  let author: string | null = null;
+  let threadEnded = false;
+
+  const collect = () => {
+    for (const art of Array.from(document.querySelectorAll(sel))) {
+      const tweet = parseTweet(art);
+      const key = tweet.statusId ?? `text:${tweet.handle}:${tweet.text}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      if (author === null) {
+        author = tweet.handle.toLowerCase();
+        tweets.push(tweet);
+        continue;
+      }
+      if (!author || tweet.handle.toLowerCase() !== author) {
+        // スクロール時は本人の続きが終わったところで止める。そうでなければ他人の返信を飛ばす
+        if (scroll) {
+          threadEnded = true;
+          return;
+        }
+        continue;
+      }
+      if (tweet.text || tweet.images.length > 0 || tweet.quote || tweet.card) tweets.push(tweet);
+      if (tweets.length >= maxTweets) return;
+    }
+  };
+
+  collect();
+  let partial = false;
+  if (scroll) {
+    const deadline = Date.now() + maxMs;
+    let idle = 0;
+    try {
+      while (!threadEnded && tweets.length < maxTweets && idle < IDLE_ROUNDS_TO_STOP && Date.now() < deadline) {
+        const before = seen.size;
+        window.scrollBy(0, Math.round(window.innerHeight * 0.8));
+        await new Promise((resolve) => setTimeout(resolve, SCROLL_WAIT_MS));
+        collect();
+        idle = seen.size === before ? idle + 1 : 0;
+      }
+      partial = !threadEnded && tweets.length < maxTweets && (document.hidden || Date.now() >= deadline);
+    } finally {
+      window.scrollTo(0, startY);
+    }
+  }
+
+  return { tweets: tweets.slice(0, maxTweets), partial };
+}
+
+/**
+ * ページコンテキストで実行。本文らしい要素をスコアで選び（readability 方式）、Markdown に変換して返す。
+ * 見出し・リスト・強調・引用・コードブロック（```lang）・GFM テーブル・画像を残し、ナビや広告は落とす。
+ * links は本文中の a を Obsidian リンク [title](href) にしたもの（最大30件）。
+ * open な shadow root は描画どおり（slot の割り当て込み）にたどる。同一オリジンの about:blank / srcdoc の
+ * iframe はその場で展開し、それ以外の iframe は位置に FRAME_MARKER を残す（allFrames の結果を tab-capture で差し込む）。
+ * （executeScript で注入するため、この関数内で完結させる。他関数を参照しないこと。）
+ */
+export function extractMarkdownBodyInPage(): { frameUrl: string; bodyText: string; links: string[] } {
+  const NOISE_TAGS = new Set([
+    "SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "SVG", "CANVAS", "FORM", "BUTTON",
+    "INPUT", "SELECT", "TEXTAREA", "NAV", "ASIDE", "FOOTER", "DIALOG",
+  ]);
+  const NOISE_ROLES = /^(navigation|banner|contentinfo|complementary|dialog|menu|menubar|search)$/;
+  const NEGATIVE = /(^|[\s_-])(ad|ads|banner|breadcrumb|comment|footer|footnote|masthead|menu|modal|nav|popup|promo|related|share|sharing|sidebar|social|sponsor|subscribe|tag-?cloud|widget|cookie)([\s_-]|$)/i;
+  const POSITIVE = /(article|body|content|entry|main|page|post|story|text|blog)/i;
+  const BLOCK_TAGS = new Set([
+    "P", "DIV", "SECTION", "ARTICLE", "MAIN", "H1", "H2", "H3", "H4", "H5", "H6", "UL", "OL", "LI",
+    "PRE", "BLOCKQUOTE", "TABLE", "FIGURE", "FIGCAPTION", "HR", "DL", "DT", "DD", "DETAILS", "SUMMARY",
+  ]);
+
+  const classAndId = (el: Element) => `${el.getAttribute("class") ?? ""} ${el.id}`;
+  /** 描画される子ノード。shadow host は shadow root の中身、slot は割り当てられたノード */
+  const childrenOf = (node: Node): Node[] => {
+    if (node.nodeType !== Node.ELEMENT_NODE) return Array.from(node.childNodes);
+    const el = node as Element;
+    if (el.shadowRoot) return Array.from(el.shadowRoot.childNodes);
+    if (el.tagName === "SLOT") {
+      const assigned = (el as HTMLSlotElement).assignedNodes({ flatten: true });
+      if (assigned.length > 0) return assigned;
+    }
+    return Array.from(el.childNodes);
+  };
+  const parentOf = (el: Element): Element | null => {
+    if (el.parentElement) return el.parentElement;
+    const root = el.getRootNode();
+    return root instanceof ShadowRoot ? root.host : null;
+  };
+  /** querySelectorAll を open な shadow root の中まで広げたもの */
+  const deepQueryAll = (root: ParentNode, selector: string): Element[] => {
+    const found = Array.from(root.querySelectorAll(selector));
+    for (const el of Array.from(root.querySelectorAll("*"))) {
+      if (el.shadowRoot) found.push(...deepQueryAll(el.shadowRoot, selector));
+    }
+    return found;
+  };
+  const flatText = (node: Node): string =>
+    node.nodeType === Node.TEXT_NODE ? (node.textContent ?? "") : childrenOf(node).map(flatText).join("");
+  /** 同一オリジンで中身を直接読める about:blank / srcdoc の iframe（allFrames では注入されない） */
+  const inlineFrameBody = (el: Element): HTMLElement | null => {
+    const src = el.getAttribute("src") ?? "";
+    if (src && !src.startsWith("about:") && !el.hasAttribute("srcdoc")) return null;
+    try {
+      return (el as HTMLIFrameElement).contentDocument?.body ?? null;
+    } catch {
+      return null;
+    }
+  };
+  /** 広告・計測用の小さな iframe は拾わない */
+  const isContentFrame = (el: Element): boolean => {
+    const r = el.getBoundingClientRect();
+    return r.width >= 120 && r.height >= 60 && /^https?:/.test((el as HTMLIFrameElement).src);
+  };
+  const isHidden = (el: Element): boolean => {
+    if (el.hasAttribute("hidden") || el.getAttribute("aria-hidden") === "true") return true;
+    const check = (el as HTMLElement & { checkVisibility?: () => boolean }).checkVisibility;
+    return typeof check === "function" ? !check.call(el) : false;
+  };
+  const isNoise = (el: Element): boolean => {
+    if (NOISE_TAGS.has(el.tagName)) return true;
+    // サイト共通のヘッダーは落とすが、記事内の header（タイトル・日付）は残す
+    if (el.tagName === "HEADER" && !el.parentElement?.closest("article, main")) return true;
+    if (NOISE_ROLES.test(el.getAttribute("role") ?? "")) return true;
+    const ci = classAndId(el);
+    return NEGATIVE.test(ci) && !POSITIVE.test(ci);
+  };
+  /**
+   * 要素ごとの文字数（空白を除く）とそのうちリンク内の文字数。候補ごとに子孫を数え直すと大きな DOM で O(n²) になるので、
+   * flatText と同じ辿り方（shadow root・slot 込み）で body を1回だけ走査して全要素分を控える。
+   */
+  const textStats = new Map<Element, { total: number; linked: number }>();
+  const countText = (node: Node, inLink: boolean): { total: number; linked: number } => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const n = (node.textContent ?? "").replace(/\s+/g, "").length;
+      return { total: n, linked: inLink ? n : 0 };
+    }
+    const isElement = node.nodeType === Node.ELEMENT_NODE;
+    const link = inLink || (isElement && (node as Element).tagName === "A");
+    const sum = { total: 0, linked: 0 };
+    for (const child of childrenOf(node)) {
+      const c = countText(child, link);
+      sum.total += c.total;
+      sum.linked += c.linked;
+    }
+    if (isElement) textStats.set(node as Element, sum);
+    return sum;
+  };
+  const linkDensity = (el: Element): number => {
+    const stats = textStats.get(el);
+    return stats && stats.total > 0 ? stats.linked / stats.total : 0;
+  };
+
+  // --- 本文候補のスコアリング（段落の文字数・読点を親と祖父母に加点） ---
+  const scores = new Map<Element, number>();
+  const initialScore = (el: Element): number => {
+    let s = 0;
+    if (el.tagName === "DIV" || el.tagName === "ARTICLE" || el.tagName === "MAIN") s += 5;
+    else if (el.tagName === "PRE" || el.tagName === "TD" || el.tagName === "BLOCKQUOTE") s += 3;
+    else if (/^(UL|OL|DL|DD|DT|LI|FORM|ADDRESS)$/.test(el.tagName)) s -= 3;
+    else if (/^(H[1-6]|TH)$/.test(el.tagName)) s -= 5;
+    const ci = classAndId(el);
+    if (NEGATIVE.test(ci)) s -= 25;
+    if (POSITIVE.test(ci)) s += 25;
+    return s;
+  };
+  const addScore = (el: Element | null, delta: number) => {
+    if (!el || el === document.documentElement) return;
+    if (!scores.has(el)) scores.set(el, initialScore(el));
+    scores.set(el, scores.get(el)! + delta);
+  };
+  if (document.body) {
+    deepQueryAll(document.body, "p, pre, td, blockquote, li").forEach((p) => {
+      if (p.closest("nav, aside, footer, header, form, [role='navigation']")) return;
+      const text = flatText(p).replace(/\s+/g, " ").trim();
+      if (text.length < 25) return;
+      const score = 1 + (text.match(/[,、，。]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+      const parent = parentOf(p);
+      addScore(parent, score);
+      addScore(parent ? parentOf(parent) : null, score / 2);
+    });
+  }
+  let top: Element | null = null;
+  let topScore = 0;
+  if (scores.size > 0 && document.body) countText(document.body, false);
+  for (const [el, score] of scores) {
+    const final = score * (1 - linkDensity(el));
+    scores.set(el, final);
+    if (final > topScore) {
+      top = el;
+      topScore = final;
+    }
+  }
+  const fallback = document.querySelector("main") ?? document.querySelector("article") ?? document.body;
+  // 候補と同じ親を持つ兄弟で十分なスコアのものも本文に含める（記事が複数 div に分かれている場合）
+  let roots: Element[] = fallback ? [fallback] : [];
+  const topParent = top ? parentOf(top) : null;
+  if (top && topParent) {
+    const threshold = Math.max(10, topScore * 0.2);
+    roots = childrenOf(topParent)
+      .filter((n): n is Element => n.nodeType === Node.ELEMENT_NODE)
+      .filter((sib) => sib === top || ((scores.get(sib) ?? 0) >= threshold && !isNoise(sib)));
+  }
+
+  // --- DOM → Markdown ---
+  const links: string[] = [];
+  const seenLinks = new Set<string>();
+  const absUrl = (raw: string | null): string => {
+    if (!raw) return "";
+    try {
+      return new URL(raw, location.href).href;
+    } catch {
+      return "";
+    }
+  };
+  const inlineEscape = (s: string) => s.replace(/\[/g, "\\[").replace(/\]/g, "\\]");
+  const cellText = (s: string) => s.replace(/\s*\n\s*/g, "<br>").replace(/\|/g, "\\|").trim();
+
+  const inline = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? "").replace(/\s+/g, " ");
+    if (node.nodeType !== Node.ELEMENT_NODE) return "";
+    const el = node as Element;
+    if (isNoise(el) || isHidden(el)) return "";
+    const children = () => childrenOf(el).map(inline).join("");
+    switch (el.tagName) {
+      case "IFRAME": {
+        const inner = inlineFrameBody(el);
+        if (inner) return `\n\n${block(inner).trim()}\n\n`;
+        return isContentFrame(el) ? `\n\n<!--tabReaper:frame ${(el as HTMLIFrameElement).src}-->\n\n` : "";
+      }
+      case "BR":
+        return "\n";
+      case "STRONG":
+      case "B": {
+        const t = children().trim();
+        return t ? `**${t}**` : "";
+      }
+      case "EM":
+      case "I": {
+        const t = children().trim();
+        return t ? `*${t}*` : "";
+      }
+      case "DEL":
+      case "S": {
+        const t = children().trim();
+        return t ? `~~${t}~~` : "";
+      }
+      case "CODE": {
+        const t = (el.textContent ?? "").replace(/\s+/g, " ");
+        const fence = t.includes("`") ? "``" : "`";
+        return t.trim() ? `${fence}${t}${fence}` : "";
+      }
+      case "A": {
+        const text = children().trim();
+        const href = absUrl(el.getAttribute("href"));
+        if (!href.startsWith("http")) return text;
+        if (!seenLinks.has(href) && links.length < 30) {
+          seenLinks.add(href);
+          const title = (el.getAttribute("title") ?? "").trim() || text.replace(/\s+/g, " ").slice(0, 200) || href;
+          links.push("[" + title.replace(/\\/g, "\\\\").replace(/\]/g, "\\]") + "](" + href + ")");
+        }
+        return text ? `[${inlineEscape(text)}](${href})` : "";
+      }
+      case "IMG": {
+        const src = absUrl(el.getAttribute("src"));
+        if (!src.startsWith("http")) return "";
+        return `![${inlineEscape((el.getAttribute("alt") ?? "").trim())}](${src})`;
+      }
+      default:
+        return BLOCK_TAGS.has(el.tagName) ? `\n\n${block(el).trim()}\n\n` : children();
+    }
+  };
+
+  const codeBlock = (pre: Element): string => {
+    const code = pre.querySelector("code") ?? pre;
+    const lang =
+      `${code.getAttribute("class") ?? ""} ${pre.getAttribute("class") ?? ""}`.match(/(?:language|lang)-([\w+#-]+)/)?.[1] ?? "";
+    const text = (code.textContent ?? "").replace(/\n$/, "");
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((m) => m.length));
+    const fence = "`".repeat(longest + 1);
+    return `${fence}${lang}\n${text}\n${fence}`;
+  };
+
+  const table = (el: Element): string => {
+    const rows = Array.from(el.querySelectorAll("tr")).filter((tr) => tr.closest("table") === el);
+    const cells = rows.map((tr) =>
+      Array.from(tr.children)
+        .filter((c) => c.tagName === "TD" || c.tagName === "TH")
+        .flatMap((c) => {
+          const text = cellText(childrenOf(c).map(inline).join(""));
+          const span = Math.max(1, Math.min(Number(c.getAttribute("colspan")) || 1, 20));
+          return [text, ...Array(span - 1).fill("")];
+        })
+    ).filter((r) => r.length > 0);
+    if (cells.length === 0) return "";
+    const width = Math.max(...cells.map((r) => r.length));
+    const line = (r: string[]) => `| ${[...r, ...Array(width - r.length).fill("")].join(" | ")} |`;
+    return [line(cells[0]), `| ${Array(width).fill("---").join(" | ")} |`, ...cells.slice(1).map(line)].join("\n");
+  };
+
+  const list = (el: Element, indent: string): string => {
+    const ordered = el.tagName === "OL";
+    let n = Number(el.getAttribute("start")) || 1;
+    const items: string[] = [];
+    for (const li of Array.from(el.children)) {
+      if (li.tagName !== "LI" || isHidden(li)) continue;
+      const marker = ordered ? `${n++}. ` : "- ";
+      const nested: string[] = [];
+      const own = childrenOf(li)
+        .map((c) => {
+          if (c.nodeType === Node.ELEMENT_NODE && /^(UL|OL)$/.test((c as Element).tagName)) {
+            nested.push(list(c as Element, indent + "  "));
+            return "";
+          }
+          return inline(c);
+        })
+        .join("")
+        .replace(/\n{2,}/g, "\n")
+        .trim()
+        .replace(/\n/g, `\n${indent}  `);
+      items.push(`${indent}${marker}${own}`, ...nested);
+    }
+    return items.join("\n");
+  };
+
+  const block = (el: Element): string => {
+    if (isNoise(el) || isHidden(el)) return "";
+    const tag = el.tagName;
+    if (/^H[1-6]$/.test(tag)) {
+      const t = childrenOf(el).map(inline).join("").replace(/\s+/g, " ").trim();
+      return t ? `${"#".repeat(Number(tag[1]))} ${t}` : "";
+    }
+    if (tag === "PRE") return codeBlock(el);
+    if (tag === "TABLE") return table(el);
+    if (tag === "UL" || tag === "OL") return list(el, "");
+    if (tag === "HR") return "---";
+    if (tag === "BLOCKQUOTE") {
+      const inner = childrenOf(el).map(inline).join("").replace(/\n{3,}/g, "\n\n").trim();
+      return inner ? inner.split("\n").map((l) => (l.trim() ? `> ${l}` : ">")).join("\n") : "";
+    }
+    return childrenOf(el).map(inline).join("");
+  };
+
+  const markdown = roots
+    .map((r) => block(r))
+    .join("\n\n")
+    .split("\n")
+    .map((l) => l.replace(/[ \t]+$/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { frameUrl: location.href, bodyText: markdown, links };
+}
+
+/**
+ * ページコンテキストで実行。見出し（h1-h4）を抽出して返す。
+ * analysis モードの Phase 1 切り分け用。open な shadow root と同一オリジンの about:blank / srcdoc iframe も文書順にたどり、
+ * それ以外の iframe の位置には { frame: src } を入れる（allFrames の結果を tab-capture で差し込む）。
+ */
+export function extractHeadingsInPage(): {
+  frameUrl: string;
+  headings: Array<{ level: number; text: string } | FrameSlot>;
+} {
+  const main = document.querySelector("main");
+  const article = document.querySelector("article");
+  const root = main ?? article ?? document.body;
+  const headings: Array<{ level: number; text: string } | FrameSlot> = [];
+  let count = 0;
+  const walk = (node: Node) => {
+    if (count >= 40 || node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    const level = /^H[1-4]$/.test(el.tagName) ? Number(el.tagName[1]) : 0;
+    if (level > 0) {
+      const text = (el.textContent || "").trim().replace(/\s+/g, " ");
+      if (text.length > 0) {
+        headings.push({ level, text });
+        count++;
+      }
+      return;
+    }
+    if (el.tagName === "IFRAME") {
+      const frame = el as HTMLIFrameElement;
+      const src = frame.getAttribute("src") ?? "";
+      if (!src || src.startsWith("about:") || frame.hasAttribute("srcdoc")) {
+        try {
+          if (frame.contentDocument?.body) walk(frame.contentDocument.body);
+        } catch { /* cross-origin */ }
+      } else if (/^https?:/.test(frame.src) && frame.getBoundingClientRect().width >= 120) {
+        headings.push({ frame: frame.src });
+      }
+      return;
+    }
+    const children = el.shadowRoot ? el.shadowRoot.childNodes : el.childNodes;
+    for (const child of Array.from(children)) walk(child);
+  };
+  if (root) walk(root);
+  return { frameUrl: location.href, headings };
+}
+
+/**
+ * ページコンテキストで実行。ページ内の主要な画像・動画サムネイルURLを抽出して返す。
+ * Twitter/X: ツイート添付画像 + 動画poster
+ * YouTube: ページ or 埋め込みのサムネイル
+ * 一般サイト: 記事本文内の画像 + video poster + YouTube埋め込みサムネ（文書順。その他の iframe の位置には { frame: src }）
+ * executeScript に渡すため自己完結した関数にすること。
+ */
+export function extractPageImagesInPage(): {
+  frameUrl: string;
+  images: Array<{ src: string; alt: string; videoUrl?: string } | FrameSlot>;
+} {
+  const host = location.hostname.toLowerCase();
+  const isTwitter = host.includes("twitter.com") || host.includes("x.com");
+  const isYouTube = host.includes("youtube.com") || host.includes("youtu.be");
+
+  if (isYouTube) {
+    const match = location.href.match(/[?&]v=([^&#]+)/);
+    if (!match) return { frameUrl: location.href, images: [] };
+    const videoId = match[1];
+    return {
+      frameUrl: location.href,
+      images: [{
+        src: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
+        alt: document.title || "YouTube動画",
+        videoUrl: location.href,
+      }],
+    };
+  }
+
+  if (isTwitter) {
+    const articles = Array.from(document.querySelectorAll('article[data-testid="tweet"]'));
+    if (articles.length === 0) return { frameUrl: location.href, images: [] };
+    const statusId = location.pathname.match(/\/status\/(\d+)/)?.[1] ?? null;
+    const targetArticle = statusId
+      ? articles.find((art) => art.querySelector(`a[href*="/status/${statusId}"]`)) ?? articles[0]
+      : articles[0];
+    const permalink =
+      (targetArticle.querySelector('a[href*="/status/"]') as HTMLAnchorElement | null)?.href || location.href;
+    const seen = new Set<string>();
+    const result: { src: string; alt: string; videoUrl?: string }[] = [];
+    let hasUncapturedVideo = false;
+
+    const allImgs = targetArticle.querySelectorAll("img");
+    for (const img of allImgs) {
+      const el = img as HTMLImageElement;
+      let src = el.src;
+      if (!src || src.startsWith("data:") || src.startsWith("blob:")) continue;
+      if (!src.includes("pbs.twimg.com")) continue;
+      if (src.includes("/profile_images/")) continue;
+      if (el.naturalWidth > 0 && el.naturalWidth < 64) continue;
+      if (el.naturalHeight > 0 && el.naturalHeight < 64) continue;
+      if (src.includes("name=")) src = src.replace(/name=\w+/, "name=large");
+      if (seen.has(src)) continue;
+      seen.add(src);
+      result.push({ src, alt: el.alt || "" });
+    }
+
+    const videoEls = targetArticle.querySelectorAll("video");
+    for (const v of videoEls) {
+      const el = v as HTMLVideoElement;
+      let captured = false;
+      if (el.readyState >= 2 && el.videoWidth > 0) {
+        try {
+          const canvas = document.createElement("canvas");
+          canvas.width = el.videoWidth;
+          canvas.height = el.videoHeight;
+          const ctx = canvas.getContext("2d");
+          if (ctx) {
+            ctx.drawImage(el, 0, 0);
+            const dataUrl = canvas.toDataURL("image/jpeg", 0.85);
+            if (dataUrl && dataUrl.length > 1000) {
+              result.push({ src: dataUrl, alt: "動画スクショ", videoUrl: permalink });
+              captured = true;
+            }
+          }
+        } catch { /* CORS tainted canvas */ }
+      }
+      if (!captured) {
+        const poster = el.poster;
+        if (poster && !poster.startsWith("data:") && !seen.has(poster)) {
+          let src = poster;
+          if (src.includes("name=")) src = src.replace(/name=\w+/, "name=large");
+          seen.add(src);
+          result.push({ src, alt: "動画サムネイル", videoUrl: permalink });
+          captured = true;
+        }
+      }
+      if (!captured) hasUncapturedVideo = true;
+    }
+
+    if (hasUncapturedVideo) {
+      const ogImg = document.querySelector('meta[property="og:image"]');
+      const ogSrc = ogImg?.getAttribute("content");
+      if (ogSrc && !seen.has(ogSrc)) {
+        seen.add(ogSrc);
+        result.push({ src: ogSrc, alt: "動画サムネイル", videoUrl: permalink });
+      }
+    }
+
+    return { frameUrl: location.href, images: result.slice(0, 10) };
+  }
+
+  const main = document.querySelector("main");
+  const article = document.querySelector("article");
+  const contentRoot = main ?? article ?? document.body;
+  if (!contentRoot) return { frameUrl: location.href, images: [] };
+
+  const excludeSel =
+    "nav, header, footer, aside, [class*='sidebar'], [class*='menu'], [class*='ad-'], [class*='banner']";
+  const seen = new Set<string>();
+  const result: Array<{ src: string; alt: string; videoUrl?: string } | FrameSlot> = [];
+  let imageCount = 0;
+  const push = (image: { src: string; alt: string; videoUrl?: string }) => {
+    result.push(image);
+    imageCount++;
+  };
+
+  // 文書順に img / iframe / video を集める（open な shadow root と、同一オリジンの about:blank / srcdoc iframe の中も）
+  const media: Element[] = [];
+  const collect = (node: Node) => {
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    if (el.tagName === "IMG" || el.tagName === "VIDEO") {
+      media.push(el);
+      return;
+    }
+    if (el.tagName === "IFRAME") {
+      const src = el.getAttribute("src") ?? "";
+      if (!src || src.startsWith("about:") || el.hasAttribute("srcdoc")) {
+        try {
+          const inner = (el as HTMLIFrameElement).contentDocument?.body;
+          if (inner) collect(inner);
+        } catch { /* cross-origin */ }
+      } else {
+        media.push(el);
+      }
+      return;
+    }
+    const children = el.shadowRoot ? el.shadowRoot.childNodes : el.childNodes;
+    for (const child of Array.from(children)) collect(child);
+  };
+  collect(contentRoot);
+
+  for (const node of media) {
+    if (imageCount >= 10) break;
+    if (node.tagName === "IMG") {
+      const el = node as HTMLImageElement;
+      if (!el.src || el.src.startsWith("data:")) continue;
+      if (el.closest(excludeSel)) continue;
+      if (el.naturalWidth > 0 && el.naturalWidth < 80) continue;
+      if (el.naturalHeight > 0 && el.naturalHeight < 80) continue;
+      const src = el.src;
+      if (seen.has(src)) continue;
+      seen.add(src);
+      push({ src, alt: el.alt || "" });
+      continue;
+    }
+
+    if (node.tagName === "IFRAME") {
+      const iframeSrc = (node as HTMLIFrameElement).src;
+      const m = iframeSrc.match(/youtube\.com\/embed\/([^?&#]+)/);
+      if (!m) {
+        // 埋め込み記事などはそのフレーム側の結果を tab-capture で差し込む
+        const r = node.getBoundingClientRect();
+        if (/^https?:/.test(iframeSrc) && r.width >= 120 && r.height >= 60) result.push({ frame: iframeSrc });
+        continue;
+      }
+      const thumbUrl = `https://img.youtube.com/vi/${m[1]}/maxresdefault.jpg`;
+      if (seen.has(thumbUrl)) continue;
+      seen.add(thumbUrl);
+      push({ src: thumbUrl, alt: "YouTube動画", videoUrl: `https://www.youtube.com/watch?v=${m[1]}` });
+      continue;
+    }
+
+    const el = node as HTMLVideoElement;
+    if (el.closest(excludeSel)) continue;
+    let captured = false;
+    if (el.readyState >= 2 && el.videoWidth > 0) {
+      try {
+        const canvas = document.createElement("canvas");
+        canvas.width = el.videoWidth;
+        canvas.height = el.videoHeight;
+        const ctx = canvas.getContext("2d");
+        if (ctx) {
+          ctx.drawImage(el, 0, 0);
+          const dataUrl = canvas.toDataURL("image/jpeg", 0.85);
+          if (dataUrl && dataUrl.length > 1000) {
+            const videoSrc = el.src || el.querySelector("source")?.src || "";
+            push({ src: dataUrl, alt: "動画スクショ", videoUrl: videoSrc || undefined });
+            captured = true;
+          }
+        }
+      } catch { /* CORS tainted canvas */ }
+    }
+    if (!captured) {
+      const poster = el.poster;
+      if (poster && !poster.startsWith("data:") && !seen.has(poster)) {
+        seen.add(poster);
+        const videoSrc = el.src || el.querySelector("source")?.src || "";
+        push({ src: poster, alt: "動画サムネイル", videoUrl: videoSrc || undefined });
+      }
+    }
+  }
+
+  return { frameUrl: location.href, images: result };
+}
+
+/** DOM から取り出したチャットの1ターン。markdown は本文（コードブロック・表を保つ）、attachments は添付のリンクまたは名前 */
+export type ChatDomTurn = { speaker: "user" | "assistant"; markdown: string; attachments: string[] };
+
+/** ページコンテキストで実行。webchat から同期的にテキストを取得（待機・スクロールなし）。
+ *  Perplexity は回答の出典リンクを sources に入れる。
+ *  ChatGPT / Claude / Gemini はサービスごとのセレクタでターンを DOM から取り、本文を Markdown（コードブロックの
+ *  言語・表・リスト付き）にして turns に入れる。描画されていない（バックグラウンドで未レンダリング等）と turns は空になるので、
+ *  rawText（innerText）も常に返し、ターン分離・ノイズ除去は normalizer 側のフォールバックに任せる。
+ *  Gemini: main.innerText が仮想スクロールで空になる場合、document.body.innerText へフォールバック。 */
+export function extractWebchatInPage(): {
+  service: string;
+  rawText: string;
+  turns: ChatDomTurn[];
+  sources: string[];
+} {
+  const host = location.hostname.toLowerCase();
+  let service = "unknown";
+  if (host.includes("chatgpt.com") || host.includes("chat.openai.com")) service = "chatgpt";
+  else if (host.includes("claude.ai")) service = "claude";
+  else if (host.includes("gemini.google.com")) service = "gemini";
+  else if (host.includes("perplexity.ai")) service = "perplexity";
+  else if (host.includes("grok.com") || (host.endsWith("x.com") && location.pathname.startsWith("/i/grok"))) service = "grok";
+  else if (host.includes("chat.deepseek.com")) service = "deepseek";
+  else if (host.includes("copilot.microsoft.com") || host.includes("copilot.cloud.microsoft")) service = "copilot";
+  else if (host.includes("chat.mistral.ai")) service = "mistral";
+  else if (host.includes("notebooklm.google.com")) service = "notebooklm";
+  const main = document.querySelector("main");
+  const article = document.querySelector("article");
+  const el = main ?? article ?? document.body;
+  let rawText = (el as HTMLElement | null)?.innerText?.trim() ?? "";
+
+  // Perplexity の回答が引用した出典（外部サイトへのリンク）を [title](href) で集める
+  const sources: string[] = [];
+  if (service === "perplexity" && el) {
+    const seen = new Set<string>();
+    for (const a of Array.from(el.querySelectorAll<HTMLAnchorElement>('a[href^="http"]'))) {
+      let href: string;
+      try {
+        const u = new URL(a.href);
+        if (u.hostname.endsWith("perplexity.ai")) continue;
+        u.hash = "";
+        href = u.href;
+      } catch {
+        continue;
+      }
+      if (seen.has(href)) continue;
+      seen.add(href);
+      const title =
+        (a.getAttribute("title") ?? "").trim() || (a.textContent ?? "").replace(/\s+/g, " ").trim().slice(0, 200) || href;
+      sources.push(`[${title.replace(/\\/g, "\\\\").replace(/\]/g, "\\]")}](${href})`);
+    }
+  }
+
+  if (service === "gemini" && rawText.length < 200) {
+    const bodyText = document.body.innerText?.trim() ?? "";
+    if (bodyText.length > rawText.length) rawText = bodyText;
+  }
+
+  // --- ターン要素の特定（サービスごと）。content は本文部分、speaker は発話者 ---
+  type TurnEl = { speaker: "user" | "assistant"; content: Element; root: Element };
+  const turnEls: TurnEl[] = [];
+  if (service === "chatgpt") {
+    for (const root of Array.from(document.querySelectorAll("[data-message-author-role]"))) {
+      const role = root.getAttribute("data-message-author-role");
+      if (role !== "user" && role !== "assistant") continue;
+      const content = root.querySelector(".markdown, .whitespace-pre-wrap") ?? root;
+      turnEls.push({ speaker: role, content, root });
+    }
+  } else if (service === "claude") {
+    const sel = '[data-testid="user-message"], .font-claude-response, .font-claude-message';
+    for (const root of Array.from(document.querySelectorAll(sel))) {
+      // 応答の中に入れ子で同じクラスが付くことがあるので外側だけ取る
+      if (root.parentElement?.closest(sel)) continue;
+      const speaker = root.matches('[data-testid="user-message"]') ? "user" : "assistant";
+      turnEls.push({ speaker, content: root, root: root.closest("[data-test-render-count]") ?? root });
+    }
+  } else if (service === "gemini") {
+    for (const root of Array.from(document.querySelectorAll("user-query, model-response"))) {
+      const isUser = root.tagName === "USER-QUERY";
+      const content = root.querySelector(isUser ? ".query-text" : "message-content") ?? root;
+      turnEls.push({ speaker: isUser ? "user" : "assistant", content, root });
+    }
+  }
+
+  // --- DOM → Markdown（extractMarkdownBodyInPage の変換をチャット向けに絞ったもの） ---
+  const SKIP_TAGS = /^(SCRIPT|STYLE|NOSCRIPT|TEMPLATE|SVG|BUTTON|INPUT|TEXTAREA|SELECT)$/;
+  const isSkipped = (node: Element): boolean =>
+    SKIP_TAGS.test(node.tagName) ||
+    node.classList.contains("sr-only") ||
+    node.getAttribute("aria-hidden") === "true" ||
+    node.hasAttribute("hidden");
+  const BLOCK = /^(P|DIV|SECTION|H[1-6]|UL|OL|LI|PRE|BLOCKQUOTE|TABLE|HR|FIGURE|DETAILS|SUMMARY)$/;
+
+  const inline = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? "").replace(/\s+/g, " ");
+    if (node.nodeType !== Node.ELEMENT_NODE) return "";
+    const n = node as Element;
+    if (isSkipped(n)) return "";
+    const children = () => Array.from(n.childNodes).map(inline).join("");
+    switch (n.tagName) {
+      case "BR":
+        return "\n";
+      case "STRONG":
+      case "B": {
+        const t = children().trim();
+        return t ? `**${t}**` : "";
+      }
+      case "EM":
+      case "I": {
+        const t = children().trim();
+        return t ? `*${t}*` : "";
+      }
+      case "CODE": {
+        const t = n.textContent ?? "";
+        const fence = t.includes("`") ? "``" : "`";
+        return t.trim() ? `${fence}${t}${fence}` : "";
+      }
+      case "A": {
+        const t = children().trim();
+        const href = (n as HTMLAnchorElement).href;
+        return t && href.startsWith("http") ? `[${t}](${href})` : t;
+      }
+      case "IMG": {
+        const src = (n as HTMLImageElement).src;
+        return src.startsWith("http") ? `![${n.getAttribute("alt") ?? ""}](${src})` : "";
+      }
+      default:
+        return BLOCK.test(n.tagName) ? `\n\n${block(n).trim()}\n\n` : children();
+    }
+  };
+
+  const codeBlock = (pre: Element): string => {
+    const code = pre.querySelector("code") ?? pre;
+    const classes = `${code.getAttribute("class") ?? ""} ${pre.getAttribute("class") ?? ""}`;
+    const lang = classes.match(/(?:language|lang)-([\w+#-]+)/)?.[1] ?? "";
+    const text = (code.textContent ?? "").replace(/\n$/, "");
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((m) => m.length));
+    const fence = "`".repeat(longest + 1);
+    return `${fence}${lang}\n${text}\n${fence}`;
+  };
+
+  const table = (t: Element): string => {
+    const rows = Array.from(t.querySelectorAll("tr"))
+      .map((tr) =>
+        Array.from(tr.children)
+          .filter((c) => c.tagName === "TD" || c.tagName === "TH")
+          .map((c) => Array.from(c.childNodes).map(inline).join("").replace(/\s*\n\s*/g, "<br>").replace(/\|/g, "\\|").trim())
+      )
+      .filter((r) => r.length > 0);
+    if (rows.length === 0) return "";
+    const width = Math.max(...rows.map((r) => r.length));
+    const line = (r: string[]) => `| ${[...r, ...Array(width - r.length).fill("")].join(" | ")} |`;
+    return [line(rows[0]), `| ${Array(width).fill("---").join(" | ")} |`, ...rows.slice(1).map(line)].join("\n");
+  };
+
+  const list = (l: Element, indent: string): string => {
+    let n = Number(l.getAttribute("start")) || 1;
+    const items: string[] = [];
+    for (const li of Array.from(l.children)) {
+      if (li.tagName !== "LI") continue;
+      const marker = l.tagName === "OL" ? `${n++}. ` : "- ";
+      const nested: string[] = [];
+      const own = Array.from(li.childNodes)
+        .map((c) => {
+          if (c.nodeType === Node.ELEMENT_NODE && /^(UL|OL)$/.test((c as Element).tagName)) {
+            nested.push(list(c as Element, indent + "  "));
+            return "";
+          }
+          if (c.nodeType === Node.ELEMENT_NODE && (c as Element).tagName === "PRE") return `\n${codeBlock(c as Element)}\n`;
+          return inline(c);
+        })
+        .join("")
+        .replace(/\n{2,}/g, "\n")
+        .trim()
+        .replace(/\n/g, `\n${indent}  `);
+      items.push(`${indent}${marker}${own}`, ...nested);
+    }
+    return items.join("\n");
+  };
+
+  const block = (n: Element): string => {
+    if (isSkipped(n)) return "";
+    if (/^H[1-6]$/.test(n.tagName)) {
+      const t = Array.from(n.childNodes).map(inline).join("").replace(/\s+/g, " ").trim();
+      return t ? `${"#".repeat(Number(n.tagName[1]))} ${t}` : "";
+    }
+    if (n.tagName === "PRE") return codeBlock(n);
+    if (n.tagName === "TABLE") return table(n);
+    if (n.tagName === "UL" || n.tagName === "OL") return list(n, "");
+    if (n.tagName === "HR") return "---";
+    if (n.tagName === "BLOCKQUOTE") {
+      const t = Array.from(n.childNodes).map(inline).join("").replace(/\n{3,}/g, "\n\n").trim();
+      return t ? t.split("\n").map((l) => (l.trim() ? `> ${l}` : ">")).join("\n") : "";
+    }
+    return Array.from(n.childNodes).map(inline).join("");
+  };
+
+  const toMarkdown = (n: Element): string =>
+    block(n)
+      .split("\n")
+      .map((l) => l.replace(/[ \t]+$/, ""))
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+
+  /** 本文の外にある添付（画像・ファイルのチップ）。リンクが取れればリンク、無ければ表示名 */
+  const attachmentsOf = (t: TurnEl): string[] => {
+    const found = new Set<string>();
+    for (const img of Array.from(t.root.querySelectorAll("img"))) {
+      if (t.content.contains(img)) continue;
+      const src = (img as HTMLImageElement).src;
+      if (!src.startsWith("http") || (img as HTMLImageElement).naturalWidth < 48) continue;
+      found.add(`![${img.getAttribute("alt") ?? ""}](${src})`);
+    }
+    const fileSel = '[data-testid*="file"], [data-testid*="attachment"], [class*="attachment"], a[download]';
+    for (const file of Array.from(t.root.querySelectorAll(fileSel))) {
+      if (t.content.contains(file) || file.parentElement?.closest(fileSel)) continue;
+      const name = (file.textContent ?? "").replace(/\s+/g, " ").trim().slice(0, 200);
+      const href = (file as HTMLAnchorElement).href ?? file.querySelector("a[href]")?.getAttribute("href") ?? "";
+      if (href.startsWith("http")) found.add(`[${name || href}](${href})`);
+      else if (name) found.add(name);
+    }
+    return [...found];
+  };
+
+  const turns: ChatDomTurn[] = turnEls
+    .map((t) => ({ speaker: t.speaker, markdown: toMarkdown(t.content), attachments: attachmentsOf(t) }))
+    .filter((t) => t.markdown || t.attachments.length > 0);
+
+  return { service, rawText, turns, sources };
+}
+
+/** ページで選択中のテキストを返す（executeScript 用・単体で注入される） */
+export function getSelectionInPage(): string {
+  return (typeof window.getSelection !== "function" ? "" : window.getSelection()?.toString() ?? "").trim();
+}
+
+/**
+ * YouTube の視聴ページ（MAIN world で実行）。プレイヤーが読み込んだ字幕トラックを json3 で取得し、
+ * 取れなければ「文字起こし」パネルの DOM から読む（パネルが閉じていれば開いて最大5秒待つ）。
+ * 手動字幕を自動生成より、ja → en → その他の順で優先。字幕が無ければ null。
+ */
+export async function extractYoutubeTranscriptInPage(): Promise<{
+  videoId: string;
+  language: string;
+  auto: boolean;
+  segments: Array<{ start: number; text: string }>;
+} | null> {
+  type Track = { baseUrl: string; languageCode: string; kind?: string };
+  type PlayerResponse = {
+    videoDetails?: { videoId?: string };
+    captions?: { playerCaptionsTracklistRenderer?: { captionTracks?: Track[] } };
+  };
+  type Json3 = { events?: Array<{ tStartMs?: number; segs?: Array<{ utf8?: string }> }> };
+
+  const url = new URL(location.href);
+  const videoId = url.searchParams.get("v") ?? location.pathname.match(/^\/(?:shorts|live)\/([\w-]+)/)?.[1] ?? "";
+  const player = document.querySelector("#movie_player") as (Element & { getPlayerResponse?: () => PlayerResponse }) | null;
+  // SPA 遷移後は ytInitialPlayerResponse が前の動画のままなので videoId で照合
+  const candidates = [player?.getPlayerResponse?.(), (window as unknown as { ytInitialPlayerResponse?: PlayerResponse }).ytInitialPlayerResponse];
+  const response = candidates.find((r) => r?.videoDetails?.videoId === videoId);
+  const tracks = response?.captions?.playerCaptionsTracklistRenderer?.captionTracks ?? [];
+  const rank = (t: Track) =>
+    (t.kind === "asr" ? 10 : 0) + (t.languageCode.startsWith("ja") ? 0 : t.languageCode.startsWith("en") ? 1 : 2);
+  const track = [...tracks].sort((a, b) => rank(a) - rank(b))[0];
+  if (track) {
+    try {
+      const res = await fetch(`${track.baseUrl}&fmt=json3`, { credentials: "include" });
+      const json = (await res.json()) as Json3;
+      const segments = (json.events ?? [])
+        .filter((e) => e.segs?.length)
+        .map((e) => ({
+          start: (e.tStartMs ?? 0) / 1000,
+          text: (e.segs ?? []).map((s) => s.utf8 ?? "").join("").replace(/\s+/g, " ").trim(),
+        }))
+        .filter((s) => s.text);
+      if (segments.length > 0) return { videoId, language: track.languageCode, auto: track.kind === "asr", segments };
+    } catch {
+      // 空レスポンス等は文字起こしパネルへ
+    }
+  }
+
+  const readPanel = () =>
+    Array.from(document.querySelectorAll("ytd-transcript-segment-renderer"))
+      .map((el) => {
+        const stamp = el.querySelector(".segment-timestamp")?.textContent?.trim() ?? "";
+        const text = el.querySelector(".segment-text")?.textContent?.replace(/\s+/g, " ").trim() ?? "";
+        const start = stamp.split(":").reduce((acc, n) => acc * 60 + Number(n), 0);
+        return { start, text };
+      })
+      .filter((s) => s.text && !Number.isNaN(s.start));
+  let segments = readPanel();
+  if (segments.length === 0) {
+    const button = document.querySelector(
+      "ytd-video-description-transcript-section-renderer button"
+    ) as HTMLButtonElement | null;
+    if (button) {
+      button.click();
+      for (let i = 0; i < 20 && segments.length === 0; i++) {
+        await new Promise((r) => setTimeout(r, 250));
+        segments = readPanel();
+      }
+    }
+  }
+  if (segments.length === 0) return null;
+  return { videoId, language: document.documentElement.lang || "", auto: false, segments };
+}
+
+/**
+ * アーカイブ用にページを1つの HTML 文字列に書き出す（executeScript 用・単体で注入される）。
+ * script と on* 属性は外し、リンク等の URL は絶対化する。画像と読めない外部 CSS は拡張機能側で取得して埋め込むので
+ * `tabreaper-res:N` の目印に置き換え、N 番目の URL を resources に返す。読める CSS は CSSOM から本文を取り <style> にする。
+ * <style> の data-tabreaper-base は CSS 内の url() の基準 URL。
+ */
+export function serializePageForArchiveInPage(): { html: string; resources: string[] } {
+  const resources: string[] = [];
+  const token = (url: string): string => {
+    let i = resources.indexOf(url);
+    if (i === -1) i = resources.push(url) - 1;
+    return `tabreaper-res:${i}`;
+  };
+  const abs = (u: string | null): string | null => {
+    if (!u) return null;
+    try {
+      return new URL(u, document.baseURI).href;
+    } catch {
+      return null;
+    }
+  };
+
+  // clone は元の DOM と同じ順に並ぶので、currentSrc や CSSOM は元ノードから読む
+  const ASSET_SELECTOR = "img, link[rel~='stylesheet']";
+  const originals = Array.from(document.querySelectorAll(ASSET_SELECTOR));
+  const root = document.documentElement.cloneNode(true) as HTMLElement;
+  const clones = Array.from(root.querySelectorAll(ASSET_SELECTOR));
+  clones.forEach((el, i) => {
+    const orig = originals[i];
+    if (el instanceof HTMLImageElement && orig instanceof HTMLImageElement) {
+      const src = abs(orig.currentSrc || orig.getAttribute("data-src") || orig.getAttribute("src"));
+      for (const attr of ["srcset", "sizes", "loading", "decoding"]) el.removeAttribute(attr);
+      if (src) el.setAttribute("src", /^https?:/.test(src) ? token(src) : src);
+      return;
+    }
+    if (!(el instanceof HTMLLinkElement) || !(orig instanceof HTMLLinkElement)) return;
+    const href = abs(orig.getAttribute("href"));
+    let cssText: string | null = null;
+    try {
+      const rules = orig.sheet?.cssRules;
+      if (rules) cssText = Array.from(rules, (r) => r.cssText).join("\n");
+    } catch {
+      // クロスオリジンの CSS は CSSOM から読めないので拡張機能側で取得する
+    }
+    if (cssText == null && !href) {
+      el.remove();
+      return;
+    }
+    const style = document.createElement("style");
+    if (orig.media) style.media = orig.media;
+    style.setAttribute("data-tabreaper-base", href ?? document.baseURI);
+    style.textContent = cssText ?? `/*${token(href!)}*/`;
+    el.replaceWith(style);
+  });
+
+  // <picture> の <source> が残ると埋め込んだ img より優先されてしまう
+  root.querySelectorAll(
+    "script, noscript, base, picture > source, link[rel~='preload'], link[rel~='modulepreload'], link[rel~='prefetch'], meta[http-equiv='Content-Security-Policy' i]"
+  ).forEach((el) => el.remove());
+  root.querySelectorAll("*").forEach((el) => {
+    for (const attr of Array.from(el.attributes)) {
+      if (/^on/i.test(attr.name)) el.removeAttribute(attr.name);
+    }
+  });
+  root.querySelectorAll("[href], [src], [poster]").forEach((el) => {
+    for (const attr of ["href", "src", "poster"]) {
+      const value = el.getAttribute(attr);
+      if (!value || value.startsWith("tabreaper-res:") || /^(data|blob|javascript):/i.test(value) || value.startsWith("#")) continue;
+      const resolved = abs(value);
+      if (resolved) el.setAttribute(attr, resolved);
+    }
+  });
+  for (const sheet of document.adoptedStyleSheets ?? []) {
+    const style = document.createElement("style");
+    style.setAttribute("data-tabreaper-base", document.baseURI);
+    style.textContent = Array.from(sheet.cssRules, (r) => r.cssText).join("\n");
+    root.querySelector("head")?.appendChild(style);
+  }
+
+  const head = root.querySelector("head");
+  if (head) {
+    head.querySelectorAll("meta[charset]").forEach((el) => el.remove());
+    const charset = document.createElement("meta");
+    charset.setAttribute("charset", "utf-8");
+    head.prepend(charset);
+  }
+  const saved = `<!-- tabReaper archive: ${location.href.replace(/--/g, "%2D%2D")} (${new Date().toISOString()}) -->`;
+  return { html: `<!DOCTYPE html>\n${saved}\n${root.outerHTML}`, resources };
+}
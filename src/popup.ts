@@ -1,709 +1,102 @@
 /**
- * tabReaper popup - URL要約は @pipelines/url-summary 経由。担当AIは ai-roles の worker。
- * ファイル保存は Obsidian Local REST API 経由。
+ * tabReaper popup - タブ一覧の取得・選択と、background への保存依頼・進捗表示。
+ * 保存パイプライン本体（要約・distill・Obsidian 書き込み）は reap.ts を service worker で実行する。
  */
 
-import {
-  fetchViaJina,
-  generateSummaryJson,
-  parseSummaryJson,
-  getShortTitleForFilename,
-  generateShortTitle,
-  normalizeUrlForDedup,
-} from "@pipelines/url-summary";
-import {
-  requireModelForRole,
-  getApiKeyForProvider,
-  type APIKeySettings,
-  type AIProvider,
-} from "ai-roles";
 import { callAI } from "call-ai";
-import { logger } from "@pipelines/vault-logger";
-import { normalize, type ChatMessage } from "@pipelines/normalizer";
-import { process as runTaskReaperProcess } from "@pipelines/task-reaper";
-import { runDistill } from "@pipelines/distill-filter";
+import { type AIProvider } from "ai-roles";
+import { loadWorkerModel } from "./llm-settings";
+import { getSelectedTextInTab, fetchWindowGroups } from "./tab-capture";
+import { countPendingJobs } from "./job-store";
+import { countOutbox } from "./outbox";
+import { countUndoableTabs } from "./post-save";
+import { lookupExistingClips } from "./clip-index";
+import { loadSinkKind, loadStorageSink } from "./storage-sink";
+import { sinkDirectoryStatus } from "./fs-sink";
+import { buildQuickReapSelection } from "./quick-reap";
 import {
-  loadRestConfig,
-  healthCheck,
-  putVaultFile,
-  putVaultBinary,
-  appendVaultFile,
-  type ObsidianRestConfig,
-} from "./obsidian-rest";
-
-const VAULT_CLIP_DIR = "library/clip";
-const VAULT_REFERENCE_DIR = "library/reference";
-const VAULT_RAW_DIR = "memory/raw_content";
-const RAW_CONTENT_PATH_PREFIX = "memory/raw_content";
-const VAULT_IMAGE_DIR = "memory/raw_content/img";
-const SHORT_TITLE_MAX_LEN = 60;
-const WINDOW_LABEL_MAX_LEN = 40;
-const RAW_CONTENT_MIN_CHARS = 3000;
-
-const TWITTER_HOST_RE = /^(https?:\/\/)?(www\.)?(twitter\.com|x\.com)(\/|$)/i;
-const YOUTUBE_HOST_RE = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)(\/|$)/i;
-
-type SourceType = "web" | "x" | "youtube" | "paper" | "blog";
-type ChatService = "chatgpt" | "claude" | "gemini";
-
-function detectSourceType(url: string): SourceType {
-  if (TWITTER_HOST_RE.test(url)) return "x";
-  if (YOUTUBE_HOST_RE.test(url)) return "youtube";
-  if (/\.pdf(\?|#|$)/i.test(url)) return "paper";
-  return "web";
-}
-
-function isTwitterUrl(url: string): boolean {
-  try {
-    return TWITTER_HOST_RE.test(url || "");
-  } catch {
-    return false;
-  }
-}
-
-function detectChatService(url: string): ChatService | null {
-  const u = (url || "").toLowerCase();
-  if (u.includes("chatgpt.com") || u.includes("chat.openai.com")) return "chatgpt";
-  if (u.includes("claude.ai")) return "claude";
-  if (u.includes("gemini.google.com")) return "gemini";
-  return null;
-}
-
-/**
- * ページコンテキストで実行する。本ツイート＋同一作者のスレッド続きのみを連結して返す。
- * executeScript に渡すため自己完結した関数にすること。
- */
-function extractTwitterThreadInPage(): string {
-  const sel = 'article[data-testid="tweet"]';
-  const articles = document.querySelectorAll(sel);
-  if (!articles.length) return "";
-
-  const getAuthor = (art: Element): string => {
-    const link = art.querySelector('a[href^="/"]');
-    if (!link) return "";
-    const href = (link.getAttribute("href") || "").trim();
-    if (href.includes("/status/")) return "";
-    return href.replace(/^\/|\/$/g, "").toLowerCase();
-  };
-
-  const getText = (art: Element): string => {
-    const el = art.querySelector('[data-testid="tweetText"]');
-    return el ? (el.textContent || "").trim() : "";
-  };
-
-  const main = articles[0];
-  const author = getAuthor(main);
-  const parts: string[] = [getText(main)];
-
-  if (!author) return parts[0] || "";
-
-  for (let i = 1; i < articles.length; i++) {
-    const art = articles[i];
-    if (getAuthor(art) !== author) continue;
-    const text = getText(art);
-    if (text) parts.push(text);
-  }
-
-  return parts.join("\n\n---\n\n");
-}
-
-/**
- * ページコンテキストで実行。main / article / body の順で本文を抽出しプレーンテキストで返す。
- * executeScript に渡すため自己完結した関数にすること。
- */
-function extractBodyTextInPage(): string {
-  const main = document.querySelector("main");
-  const article = document.querySelector("article");
-  const el = main ?? article ?? document.body;
-  if (!el) return "";
-  return (el as HTMLElement).innerText?.trim() ?? "";
-}
-
-/**
- * ページコンテキストで実行。本文コンテナのテキストと、その中の a タグを Obsidian リンク [title](href) で返す。
- * title は a の title 属性、なければテキスト、なければ href。
- * （executeScript で注入するため、この関数内で完結させる。他関数を参照しないこと。）
- */
-function extractBodyTextAndLinksInPage(): { bodyText: string; links: string[] } {
-  const main = document.querySelector("main");
-  const article = document.querySelector("article");
-  const contentRoot = main ?? article ?? document.body;
-  const bodyText = contentRoot ? ((contentRoot as HTMLElement).innerText?.trim() ?? "") : "";
-  if (!contentRoot) return { bodyText: "", links: [] };
-  const excludeSelector =
-    "nav, header, footer, aside, [id*='ad'], [class*='ad-'], [class*='banner'], [class*='sponsored'], " +
-    ".ad-container, .social-share, .share-buttons, .menu, .navbar, .sidebar, #sidebar";
-  const anchors = Array.from(contentRoot.querySelectorAll<HTMLAnchorElement>('a[href^="http"]'));
-  const filtered = anchors.filter((a) => !a.closest(excludeSelector));
-  const seen = new Set<string>();
-  const links: string[] = [];
-  for (const a of filtered) {
-    const href = a.href.trim();
-    if (!href || seen.has(href)) continue;
-    seen.add(href);
-    const rawTitle =
-      (a.getAttribute("title") ?? "").trim() ||
-      (a.textContent ?? "").trim().replace(/\s+/g, " ").slice(0, 200) ||
-      href;
-    const label = rawTitle.replace(/\\/g, "\\\\").replace(/\]/g, "\\]");
-    links.push("[" + label + "](" + href + ")");
-    if (links.length >= 30) break;
-  }
-  return { bodyText, links };
-}
-
-/**
- * ページコンテキストで実行。見出し（h1-h4）を抽出して返す。
- * analysis モードの Phase 1 切り分け用。
- */
-function extractHeadingsInPage(): Array<{ level: number; text: string }> {
-  const main = document.querySelector("main");
-  const article = document.querySelector("article");
-  const root = main ?? article ?? document.body;
-  if (!root) return [];
-  const headingEls = Array.from(root.querySelectorAll("h1, h2, h3, h4"));
-  const headings = headingEls
-    .map((el) => {
-      const tag = (el.tagName || "").toLowerCase();
-      const level = Number(tag.replace("h", "")) || 0;
-      const text = (el.textContent || "").trim().replace(/\s+/g, " ");
-      return { level, text };
-    })
-    .filter((h) => h.level >= 1 && h.level <= 4 && h.text.length > 0);
-  return headings.slice(0, 40);
-}
-
-/**
- * ページコンテキストで実行。ページ内の主要な画像・動画サムネイルURLを抽出して返す。
- * Twitter/X: ツイート添付画像 + 動画poster
- * YouTube: ページ or 埋め込みのサムネイル
- * 一般サイト: 記事本文内の画像 + video poster + YouTube埋め込みサムネ
- * executeScript に渡すため自己完結した関数にすること。
- */
-function extractPageImagesInPage(): { src: string; alt: string; videoUrl?: string }[] {
-  const host = location.hostname.toLowerCase();
-  const isTwitter = host.includes("twitter.com") || host.includes("x.com");
-  const isYouTube = host.includes("youtube.com") || host.includes("youtu.be");
-
-  if (isYouTube) {
-    const match = location.href.match(/[?&]v=([^&#]+)/);
-    if (!match) return [];
-    const videoId = match[1];
-    return [{
-      src: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
-      alt: document.title || "YouTube動画",
-      videoUrl: location.href,
-    }];
-  }
-
-  if (isTwitter) {
-    const articles = Array.from(document.querySelectorAll('article[data-testid="tweet"]'));
-    if (articles.length === 0) return [];
-    const statusId = location.pathname.match(/\/status\/(\d+)/)?.[1] ?? null;
-    const targetArticle = statusId
-      ? articles.find((art) => art.querySelector(`a[href*="/status/${statusId}"]`)) ?? articles[0]
-      : articles[0];
-    const permalink =
-      (targetArticle.querySelector('a[href*="/status/"]') as HTMLAnchorElement | null)?.href || location.href;
-    const seen = new Set<string>();
-    const result: { src: string; alt: string; videoUrl?: string }[] = [];
-    let hasUncapturedVideo = false;
-
-    const allImgs = targetArticle.querySelectorAll("img");
-    for (const img of allImgs) {
-      const el = img as HTMLImageElement;
-      let src = el.src;
-      if (!src || src.startsWith("data:") || src.startsWith("blob:")) continue;
-      if (!src.includes("pbs.twimg.com")) continue;
-      if (src.includes("/profile_images/")) continue;
-      if (el.naturalWidth > 0 && el.naturalWidth < 64) continue;
-      if (el.naturalHeight > 0 && el.naturalHeight < 64) continue;
-      if (src.includes("name=")) src = src.replace(/name=\w+/, "name=large");
-      if (seen.has(src)) continue;
-      seen.add(src);
-      result.push({ src, alt: el.alt || "" });
-    }
-
-    const videoEls = targetArticle.querySelectorAll("video");
-    for (const v of videoEls) {
-      const el = v as HTMLVideoElement;
-      let captured = false;
-      if (el.readyState >= 2 && el.videoWidth > 0) {
-        try {
-          const canvas = document.createElement("canvas");
-          canvas.width = el.videoWidth;
-          canvas.height = el.videoHeight;
-          const ctx = canvas.getContext("2d");
-          if (ctx) {
-            ctx.drawImage(el, 0, 0);
-            const dataUrl = canvas.toDataURL("image/jpeg", 0.85);
-            if (dataUrl && dataUrl.length > 1000) {
-              result.push({ src: dataUrl, alt: "動画スクショ", videoUrl: permalink });
-              captured = true;
-            }
-          }
-        } catch { /* CORS tainted canvas */ }
-      }
-      if (!captured) {
-        const poster = el.poster;
-        if (poster && !poster.startsWith("data:") && !seen.has(poster)) {
-          let src = poster;
-          if (src.includes("name=")) src = src.replace(/name=\w+/, "name=large");
-          seen.add(src);
-          result.push({ src, alt: "動画サムネイル", videoUrl: permalink });
-          captured = true;
-        }
-      }
-      if (!captured) hasUncapturedVideo = true;
-    }
-
-    if (hasUncapturedVideo) {
-      const ogImg = document.querySelector('meta[property="og:image"]');
-      const ogSrc = ogImg?.getAttribute("content");
-      if (ogSrc && !seen.has(ogSrc)) {
-        seen.add(ogSrc);
-        result.push({ src: ogSrc, alt: "動画サムネイル", videoUrl: permalink });
-      }
-    }
-
-    return result.slice(0, 10);
-  }
-
-  const main = document.querySelector("main");
-  const article = document.querySelector("article");
-  const contentRoot = main ?? article ?? document.body;
-  if (!contentRoot) return [];
-
-  const excludeSel =
-    "nav, header, footer, aside, [class*='sidebar'], [class*='menu'], [class*='ad-'], [class*='banner']";
-  const seen = new Set<string>();
-  const result: { src: string; alt: string; videoUrl?: string }[] = [];
-
-  const imgs = contentRoot.querySelectorAll("img");
-  for (const img of imgs) {
-    const el = img as HTMLImageElement;
-    if (!el.src || el.src.startsWith("data:")) continue;
-    if (el.closest(excludeSel)) continue;
-    if (el.naturalWidth > 0 && el.naturalWidth < 80) continue;
-    if (el.naturalHeight > 0 && el.naturalHeight < 80) continue;
-    const src = el.src;
-    if (seen.has(src)) continue;
-    seen.add(src);
-    result.push({ src, alt: el.alt || "" });
-  }
-
-  const ytIframes = contentRoot.querySelectorAll('iframe[src*="youtube.com/embed"]');
-  for (const iframe of ytIframes) {
-    const iframeSrc = (iframe as HTMLIFrameElement).src;
-    const m = iframeSrc.match(/youtube\.com\/embed\/([^?&#]+)/);
-    if (!m) continue;
-    const thumbUrl = `https://img.youtube.com/vi/${m[1]}/maxresdefault.jpg`;
-    if (seen.has(thumbUrl)) continue;
-    seen.add(thumbUrl);
-    result.push({ src: thumbUrl, alt: "YouTube動画", videoUrl: `https://www.youtube.com/watch?v=${m[1]}` });
-  }
-
-  const videos = contentRoot.querySelectorAll("video");
-  for (const v of videos) {
-    const el = v as HTMLVideoElement;
-    if (el.closest(excludeSel)) continue;
-    let captured = false;
-    if (el.readyState >= 2 && el.videoWidth > 0) {
-      try {
-        const canvas = document.createElement("canvas");
-        canvas.width = el.videoWidth;
-        canvas.height = el.videoHeight;
-        const ctx = canvas.getContext("2d");
-        if (ctx) {
-          ctx.drawImage(el, 0, 0);
-          const dataUrl = canvas.toDataURL("image/jpeg", 0.85);
-          if (dataUrl && dataUrl.length > 1000) {
-            const videoSrc = el.src || el.querySelector("source")?.src || "";
-            result.push({ src: dataUrl, alt: "動画スクショ", videoUrl: videoSrc || undefined });
-            captured = true;
-          }
-        }
-      } catch { /* CORS tainted canvas */ }
-    }
-    if (!captured) {
-      const poster = el.poster;
-      if (poster && !poster.startsWith("data:") && !seen.has(poster)) {
-        seen.add(poster);
-        const videoSrc = el.src || el.querySelector("source")?.src || "";
-        result.push({ src: poster, alt: "動画サムネイル", videoUrl: videoSrc || undefined });
-      }
-    }
-  }
-
-  return result.slice(0, 10);
-}
-
-/** ページコンテキストで実行。webchat から同期的にテキストを取得（待機・スクロールなし）。
- *  Gemini: main.innerText が仮想スクロールで空になる場合、document.body.innerText へフォールバック。
- *  DOM セレクタ方式はバックグラウンドタブでレンダリングされないため使用不可（E｜20260224 参照）。
- *  ターン分離・ノイズ除去は normalizer 側で実施。 */
-function extractWebchatInPage(): { service: string; rawText: string } {
-  const host = location.hostname.toLowerCase();
-  let service = "unknown";
-  if (host.includes("chatgpt.com") || host.includes("chat.openai.com")) service = "chatgpt";
-  else if (host.includes("claude.ai")) service = "claude";
-  else if (host.includes("gemini.google.com")) service = "gemini";
-  const main = document.querySelector("main");
-  const article = document.querySelector("article");
-  const el = main ?? article ?? document.body;
-  let rawText = (el as HTMLElement | null)?.innerText?.trim() ?? "";
-
-  if (service === "gemini" && rawText.length < 200) {
-    const bodyText = document.body.innerText?.trim() ?? "";
-    if (bodyText.length > rawText.length) rawText = bodyText;
-  }
-
-  return { service, rawText };
-}
-
-/** Content Script 注入不可または Discarded の場合は true */
-function isTabUninjectable(url: string, discarded: boolean): boolean {
-  if (discarded) return true;
-  if (!url || !url.startsWith("http")) return true;
-  if (/^https?:\/\/chrome\.google\.com\/webstore\//i.test(url)) return true;
-  return false;
-}
-
-/** 指定タブからページ内の画像・動画サムネURLを抽出 */
-async function fetchTabImages(
-  tabId: number,
-  url: string,
-  discarded: boolean,
-): Promise<{ src: string; alt: string; videoUrl?: string }[]> {
-  if (isTabUninjectable(url, discarded)) return [];
-  try {
-    const result = await chrome.scripting.executeScript({
-      target: { tabId },
-      func: extractPageImagesInPage,
-    });
-    return (result?.[0]?.result as { src: string; alt: string; videoUrl?: string }[]) ?? [];
-  } catch {
-    return [];
-  }
-}
-
-/** 画像URLからバイナリをダウンロード。失敗や巨大ファイルは null */
-async function downloadImage(
-  imageUrl: string,
-): Promise<{ data: ArrayBuffer; contentType: string; ext: string } | null> {
-  try {
-    const res = await fetch(imageUrl);
-    if (!res.ok) return null;
-    const ct = (res.headers.get("content-type") || "image/jpeg").split(";")[0].trim();
-    if (ct.includes("svg")) return null;
-    const data = await res.arrayBuffer();
-    if (data.byteLength > 5 * 1024 * 1024 || data.byteLength < 100) return null;
-    let ext = "jpg";
-    if (ct.includes("png")) ext = "png";
-    else if (ct.includes("gif")) ext = "gif";
-    else if (ct.includes("webp")) ext = "webp";
-    return { data, contentType: ct, ext };
-  } catch {
-    return null;
-  }
-}
-
-/** 要約mdの末尾に画像・動画サムネセクションを追記 */
-function appendImagesSectionToMd(
-  md: string,
-  images: { filename: string; alt: string; videoUrl?: string }[],
-): string {
-  if (images.length === 0) return md;
-  const lines: string[] = [];
-  for (const img of images) {
-    lines.push(`![[${img.filename}]]`);
-    if (img.videoUrl) {
-      lines.push(`[動画リンク](${img.videoUrl})`);
-    }
-  }
-  return `${md.trimEnd()}\n\n## 画像\n${lines.join("\n")}\n`;
-}
-
-/** ページで選択中のテキストを返す（executeScript 用・単体で注入される） */
-function getSelectionInPage(): string {
-  return (typeof window.getSelection !== "function" ? "" : window.getSelection()?.toString() ?? "").trim();
-}
-
-/** 指定タブで選択中のテキストを取得。取得不可・未選択なら null */
-async function getSelectedTextInTab(tabId: number, url: string, discarded: boolean): Promise<string | null> {
-  if (isTabUninjectable(url, discarded)) return null;
-  try {
-    const result = await chrome.scripting.executeScript({
-      target: { tabId },
-      func: getSelectionInPage,
-    });
-    const s = result?.[0]?.result;
-    return typeof s === "string" && s.length > 0 ? s : null;
-  } catch {
-    return null;
-  }
-}
-
-/** 選択タブの本文を Content Script で取得。取得不可なら null */
-async function fetchTabBodyText(tabId: number, url: string, discarded: boolean): Promise<string | null> {
-  if (isTabUninjectable(url, discarded)) return null;
-  try {
-    const result = await chrome.scripting.executeScript({
-      target: { tabId },
-      func: extractBodyTextInPage,
-    });
-    const raw = result?.[0]?.result;
-    if (typeof raw !== "string" || !raw.trim()) return null;
-    return raw.trim();
-  } catch {
-    return null;
-  }
-}
-
-/**
- * Discarded タブをバックグラウンドでリロードし、読み込み完了を待つ。2-0 用。
- * アクティブにしないのでポップアップが閉じない。最大 30 秒で打ち切り。
- */
-async function ensureTabLoadedForBody(tabId: number): Promise<void> {
-  await chrome.tabs.reload(tabId);
-  return new Promise((resolve) => {
-    const timeout = setTimeout(() => {
-      chrome.tabs.onUpdated.removeListener(listener);
-      resolve();
-    }, 30000);
-    const listener = (
-      id: number,
-      changeInfo: chrome.tabs.TabChangeInfo
-    ) => {
-      if (id !== tabId || changeInfo.status !== "complete") return;
-      clearTimeout(timeout);
-      chrome.tabs.onUpdated.removeListener(listener);
-      resolve();
-    };
-    chrome.tabs.onUpdated.addListener(listener);
-  });
-}
-
-/** 選択タブの本文と本文コンテナ内リンクを一度に取得 */
-async function fetchTabBodyAndLinks(
-  tabId: number,
-  url: string,
-  discarded: boolean
-): Promise<{ bodyText: string | null; links: string[] }> {
-  if (isTabUninjectable(url, discarded)) return { bodyText: null, links: [] };
-  try {
-    const result = await chrome.scripting.executeScript({
-      target: { tabId },
-      func: extractBodyTextAndLinksInPage,
-    });
-    const data = result?.[0]?.result as { bodyText?: string; links?: string[] } | undefined;
-    const bodyText = data?.bodyText != null && String(data.bodyText).trim() ? String(data.bodyText).trim() : null;
-    const links = Array.isArray(data?.links) ? (data.links as string[]) : [];
-    return { bodyText, links };
-  } catch {
-    return { bodyText: null, links: [] };
-  }
-}
-
-/** 選択タブの見出し情報を取得（analysis モード用）。取得不可時は空配列 */
-async function fetchTabHeadings(
-  tabId: number,
-  url: string,
-  discarded: boolean
-): Promise<Array<{ level: number; text: string }>> {
-  if (isTabUninjectable(url, discarded)) return [];
-  try {
-    const result = await chrome.scripting.executeScript({
-      target: { tabId },
-      func: extractHeadingsInPage,
-    });
-    const rows = result?.[0]?.result;
-    if (!Array.isArray(rows)) return [];
-    return rows
-      .map((r) => r as { level?: unknown; text?: unknown })
-      .map((r) => ({
-        level: typeof r.level === "number" ? r.level : 0,
-        text: typeof r.text === "string" ? r.text.trim() : "",
-      }))
-      .filter((r) => r.level >= 1 && r.level <= 4 && r.text.length > 0)
-      .slice(0, 40);
-  } catch {
-    return [];
-  }
-}
-
-async function fetchChatContent(
-  tabId: number,
-  url: string,
-  discarded: boolean
-): Promise<{ service: string; messages: ChatMessage[]; raw_text: string }> {
-  if (isTabUninjectable(url, discarded)) {
-    return { service: "unknown", messages: [], raw_text: "" };
-  }
-  try {
-    const extraction = chrome.scripting.executeScript({
-      target: { tabId },
-      func: extractWebchatInPage,
-    });
-    const timed = new Promise<never>((_, reject) =>
-      setTimeout(() => reject(new Error("chat extraction timeout")), 5000)
-    );
-    const result = (await Promise.race([extraction, timed])) as chrome.scripting.InjectionResult[];
-    const data = result?.[0]?.result as { service?: string; rawText?: string } | undefined;
-    const normalized = normalize({
-      mode: "chat",
-      rawText: data?.rawText ?? "",
-      metadata: { service: data?.service ?? "unknown" },
-    });
-    return {
-      service: (normalized.metadata.service as string) ?? "unknown",
-      messages: normalized.messages,
-      raw_text: normalized.raw_text,
-    };
-  } catch {
-    return { service: "unknown", messages: [], raw_text: "" };
-  }
-}
-
-function isChatCaptureFailed(chat: {
-  service: string;
-  messages: ChatMessage[];
-  raw_text: string;
-}): { failed: boolean; reasons: string[] } {
-  const reasons: string[] = [];
-  const rawChars = (chat.raw_text || "").trim().length;
-  if (rawChars < 80) reasons.push("short_raw_text");
-  if ((chat.messages?.length ?? 0) === 0) reasons.push("zero_turns");
-  return { failed: reasons.length > 0, reasons };
-}
-
-function buildChatCaptureFailedSummaryMd(opts: {
-  tab: TabInfo;
-  windowLabel: string;
-  rawChatPath: string;
-  chat: { service: string; messages: ChatMessage[]; raw_text: string };
-  reasons: string[];
-}): string {
-  const rawPath = opts.tab.rawContentPathForSummary ?? "（未設定）";
-  const hasRaw = rawPath !== "（未設定）";
-  const extraction = {
-    domTurns: 0,
-    turns: opts.chat.messages.length,
-    rawChars: (opts.chat.raw_text || "").length,
-    partial: true,
-    warnings: [...opts.reasons, "capture_failed"],
-  };
-  const fm = buildChatReferenceFrontmatter({
-    url: opts.tab.url,
-    rawContentPath: rawPath,
-    rawChatPath: opts.rawChatPath,
-    windowLabel: opts.windowLabel,
-    hasRaw,
-    service: opts.tab.chatService ?? opts.chat.service ?? "unknown",
-    extraction,
-  });
-  return `${fm}
-
-## 要点
-- chat捕獲に失敗したため、distillを停止しました。
-- raw_chat を確認して再実行してください。
-- 理由: ${opts.reasons.join(", ")}
-
-## 要約
-会話の抽出品質が基準未満（capture_failed）だったため、誤要約を防ぐ目的で distill を実行していません。
-
-## 教訓・示唆
-- Gemini UI 変更や未描画状態で会話本文が取得できないことがある
-- partial 保存だけでは見落としやすいため、明示失敗として扱う
-
-## レイヤー判定
-capture_failed
-
-### tags
-[[distill]] [[chat]] [[capture_failed]]
-
----
-url: ${opts.tab.url}
-raw_content: ${rawPath}
-raw_chat: ${opts.rawChatPath}
-created_at: ${new Date().toISOString()}
-raw_pagetitle: ${(opts.tab.title || "").trim() || "（無題）"}
-linked_from: tabReaper
----
-
-## 会話
-${opts.chat.raw_text.slice(0, 20000)}
-`;
-}
-
-/** タイトルから装飾・サイト名を除去して内容のみ返す（" - Site" / " | Site" 等の後ろを落とす） */
-function contentOnlyTitle(title: string | null): string {
-  if (!title || !title.trim()) return "";
-  const t = title.trim();
-  const first = t
-    .split(/\s*[-–—|]\s*|\s+\|\s+/)[0]
-    ?.trim()
-    .replace(/^\s*[·・]\s*|\s*[·・]\s*$/g, "")
-    .trim();
-  if (!first) return "";
-  if (/^(無題|Untitled|untitled)$/i.test(first)) return "";
-  return first.slice(0, WINDOW_LABEL_MAX_LEN);
-}
-
-const STORAGE_KEYS = {
-  apiKeyGemini: "tabReaper_apiKeyGemini",
-  apiKeyOpenAI: "tabReaper_apiKeyOpenAI",
-  apiKeyClaude: "tabReaper_apiKeyClaude",
-} as const;
-
-interface TabInfo {
+  toTabInfo,
+  contentOnlyTitle,
+  detectSourceType,
+  type ChatService,
+  type SourceType,
+  type DuplicateAction,
+  type TabInfo,
+  type TabGroupInfo,
+  type SelectedWindow,
+  type WriteConflict,
+} from "./tab-info";
+import {
+  STORAGE_KEY_RUN_STATUS,
+  loadRunStatus,
+  type ReapRequest,
+  type ReapResponse,
+  type RunStatus,
+  type StatusType,
+} from "./run-status";
+
+let allWindows: {
   id: number;
-  title: string | null;
-  url: string;
-  content?: string | null;
-  discarded?: boolean;
-  summaryFilename?: string;
-  summaryContent?: string;
-  summaryVaultDir?: string;
-  rawFilename?: string;
-  rawContent?: string;
-  chatRawFilename?: string;
-  chatRawContent?: string;
-  /** 1-0 本文取得で設定。要約 md の raw_content に書くパス */
-  rawContentPathForSummary?: string;
-  /** 本文中に言及された URL（要点リスト末尾に追記用） */
-  extractedUrls?: string[];
-  /** analysis モードの切り分けに使う見出し情報 */
-  headings?: Array<{ level: number; text: string }>;
-  uid8?: string;
-  baseForFilename?: string;
-  chatService?: ChatService;
-  pageImageUrls?: { src: string; alt: string; videoUrl?: string }[];
-  capturedImages?: { filename: string; alt: string; videoUrl?: string }[];
-  /** chat 蒸留失敗時のみ。day-index は URL のみ・タブ背景赤表示用 */
-  distillFailed?: boolean;
-}
-
-let allWindows: { id: number; tabs: TabInfo[]; label: string; labelFromSelection?: boolean; captureImages?: boolean }[] = [];
+  tabs: TabInfo[];
+  label: string;
+  labelFromSelection?: boolean;
+  captureImages?: boolean;
+  groups: TabGroupInfo[];
+}[] = [];
 const selectedTabs = new Set<number>();
 
 const saveBtn = document.getElementById("saveBtn") as HTMLButtonElement;
+const fetchAllBtn = document.getElementById("fetchAllBtn") as HTMLButtonElement;
+const quoteBtn = document.getElementById("quoteBtn") as HTMLButtonElement;
+const resumeBtn = document.getElementById("resumeBtn") as HTMLButtonElement;
+const undoBtn = document.getElementById("undoBtn") as HTMLButtonElement;
+const outboxRetryBtn = document.getElementById("outboxRetryBtn") as HTMLButtonElement;
+const outboxDiscardBtn = document.getElementById("outboxDiscardBtn") as HTMLButtonElement;
 const statusEl = document.getElementById("status") as HTMLDivElement;
 const tabListEl = document.getElementById("tabList") as HTMLDivElement;
 const openOptionsEl = document.getElementById("openOptions") as HTMLAnchorElement;
+const filterInput = document.getElementById("filterInput") as HTMLInputElement;
+const filterChipsEl = document.getElementById("filterChips") as HTMLDivElement;
+const selectMatchingBtn = document.getElementById("selectMatchingBtn") as HTMLButtonElement;
+const deselectMatchingBtn = document.getElementById("deselectMatchingBtn") as HTMLButtonElement;
 
 saveBtn.addEventListener("click", saveSelectedTabs);
+fetchAllBtn.addEventListener("click", fetchAllWindowsTabs);
+resumeBtn.addEventListener("click", resumePendingRun);
+quoteBtn.addEventListener("click", saveSelectionQuote);
+undoBtn.addEventListener("click", requestUndo);
+outboxRetryBtn.addEventListener("click", retryOutbox);
+outboxDiscardBtn.addEventListener("click", discardOutboxWrites);
+filterInput.addEventListener("input", renderTabList);
+selectMatchingBtn.addEventListener("click", () => setMatchingSelected(true));
+deselectMatchingBtn.addEventListener("click", () => setMatchingSelected(false));
 openOptionsEl.addEventListener("click", (e) => {
   e.preventDefault();
   chrome.runtime.openOptionsPage();
 });
-fetchCurrentWindowTabs();
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== "session" || !changes[STORAGE_KEY_RUN_STATUS]?.newValue) return;
+  applyRunStatus(changes[STORAGE_KEY_RUN_STATUS].newValue as RunStatus);
+});
+fetchCurrentWindowTabs().then(restoreRunStatus);
+
+const GROUP_COLOR_CSS: Record<string, string> = {
+  grey: "#5f6368",
+  blue: "#1a73e8",
+  red: "#d93025",
+  yellow: "#f9ab00",
+  green: "#1e8e3e",
+  pink: "#d01884",
+  purple: "#a142f4",
+  cyan: "#007b83",
+  orange: "#fa903e",
+};
 
 async function buildWindowData(
   win: chrome.windows.Window,
   winIndex: number
-): Promise<{ id: number; tabs: TabInfo[]; suggestedLabel: string }> {
-  const windowData = { id: win.id!, tabs: [] as TabInfo[] };
+): Promise<{ id: number; tabs: TabInfo[]; groups: TabGroupInfo[]; suggestedLabel: string }> {
+  const windowData = { id: win.id!, tabs: [] as TabInfo[], groups: await fetchWindowGroups(win.id!) };
   const tabs = win.tabs || [];
   for (const tab of tabs) {
     let content: string | null = null;
@@ -718,14 +111,7 @@ async function buildWindowData(
         content = null;
       }
     }
-    windowData.tabs.push({
-      id: tab.id!,
-      title: tab.title ?? null,
-      url: tab.url || "",
-      content,
-      discarded: tab.discarded,
-      chatService: detectChatService(tab.url || "") ?? undefined,
-    });
+    windowData.tabs.push(toTabInfo(tab, content));
   }
   const activeTab = tabs.find((t) => (t as chrome.tabs.Tab).active) ?? tabs[0];
   const firstTitle = tabs[0]?.title ?? null;
@@ -736,6 +122,15 @@ async function buildWindowData(
   return { ...windowData, suggestedLabel: suggested };
 }
 
+/** アクティブタブで選択中のテキストがあればウィンドウラベル用に整形して返す */
+async function labelFromActiveTabSelection(win: chrome.windows.Window): Promise<string | null> {
+  const activeTab = win.tabs?.find((t) => (t as chrome.tabs.Tab).active) ?? win.tabs?.[0];
+  if (activeTab?.id == null || !activeTab.url || activeTab.discarded) return null;
+  const selected = await getSelectedTextInTab(activeTab.id, activeTab.url, !!activeTab.discarded);
+  if (!selected || selected.length === 0) return null;
+  return selected.replace(/\s+/g, " ").slice(0, 80);
+}
+
 async function fetchCurrentWindowTabs() {
   showStatus("取得中...", "info");
   tabListEl.innerHTML = "";
@@ -747,18 +142,11 @@ async function fetchCurrentWindowTabs() {
       showStatus("ウィンドウ情報を取得できませんでした", "error");
       return;
     }
-    const activeTab = win.tabs?.find((t) => (t as chrome.tabs.Tab).active) ?? win.tabs?.[0];
-    let initialLabelFromSelection: string | null = null;
-    if (activeTab?.id != null && activeTab.url && !activeTab.discarded) {
-      const selected = await getSelectedTextInTab(activeTab.id, activeTab.url, !!activeTab.discarded);
-      if (selected && selected.length > 0) {
-        initialLabelFromSelection = selected.replace(/\s+/g, " ").slice(0, 80);
-      }
-    }
+    const initialLabelFromSelection = await labelFromActiveTabSelection(win);
     const data = await buildWindowData(win, 0);
     const labelFromSelection = initialLabelFromSelection != null;
     const initialLabel = initialLabelFromSelection ?? data.suggestedLabel ?? "ウィンドウ 1";
-    allWindows = [{ id: data.id, tabs: data.tabs, label: initialLabel, labelFromSelection }];
+    allWindows = [{ id: data.id, tabs: data.tabs, label: initialLabel, labelFromSelection, groups: data.groups }];
     // 画像以外はすべてチェック済みで表示（画像は未チェックのまま）
     for (const w of allWindows) {
       for (const t of w.tabs) selectedTabs.add(t.id);
@@ -767,14 +155,155 @@ async function fetchCurrentWindowTabs() {
     renderTabList();
     updateCopyButton();
     showStatus(`現在のウィンドウ（${allWindows[0].tabs.length}タブ）`, "success");
+    await markExistingClips();
+  } catch (error) {
+    showStatus(`エラー: ${(error as Error).message}`, "error");
+  }
+}
+
+/** 全ウィンドウ取得。ウィンドウごとにラベル・画像トグル・選択状態を持つ */
+async function fetchAllWindowsTabs() {
+  showStatus("取得中...", "info");
+  tabListEl.innerHTML = "";
+  selectedTabs.clear();
+  saveBtn.disabled = true;
+  fetchAllBtn.disabled = true;
+  try {
+    const wins = (await chrome.windows.getAll({ populate: true, windowTypes: ["normal"] })).filter(
+      (w) => (w.tabs?.length ?? 0) > 0
+    );
+    if (wins.length === 0) {
+      showStatus("ウィンドウ情報を取得できませんでした", "error");
+      return;
+    }
+    const next: typeof allWindows = [];
+    for (let i = 0; i < wins.length; i++) {
+      showStatus(`取得中 (${i + 1}/${wins.length}ウィンドウ)...`, "info");
+      const fromSelection = await labelFromActiveTabSelection(wins[i]);
+      const data = await buildWindowData(wins[i], i);
+      next.push({
+        id: data.id,
+        tabs: data.tabs,
+        label: fromSelection ?? data.suggestedLabel ?? `ウィンドウ ${i + 1}`,
+        labelFromSelection: fromSelection != null,
+        groups: data.groups,
+      });
+    }
+    allWindows = next;
+    for (const w of allWindows) {
+      for (const t of w.tabs) selectedTabs.add(t.id);
+    }
+    await refineAllWindowsLabelsOnFetch();
+    renderTabList();
+    updateCopyButton();
+    const tabCount = allWindows.reduce((n, w) => n + w.tabs.length, 0);
+    showStatus(`全ウィンドウ（${allWindows.length}ウィンドウ・${tabCount}タブ）`, "success");
+    await markExistingClips();
   } catch (error) {
     showStatus(`エラー: ${(error as Error).message}`, "error");
+  } finally {
+    fetchAllBtn.disabled = false;
+  }
+}
+
+/** 絞り込みの種別。chat タブはサービス名、それ以外は detectSourceType */
+type TabKind = SourceType | ChatService;
+
+const TAB_KIND_LABELS: Record<TabKind, string> = {
+  web: "Web",
+  blog: "ブログ",
+  x: "X",
+  youtube: "YouTube",
+  paper: "PDF",
+  chatgpt: "ChatGPT",
+  claude: "Claude",
+  gemini: "Gemini",
+  perplexity: "Perplexity",
+  grok: "Grok",
+  deepseek: "DeepSeek",
+  copilot: "Copilot",
+  mistral: "Le Chat",
+  notebooklm: "NotebookLM",
+};
+
+let filterKind: TabKind | null = null;
+
+function tabKind(tab: TabInfo): TabKind {
+  return tab.chatService ?? detectSourceType(tab.url);
+}
+
+/** "/.../flags" は正規表現、それ以外は大文字小文字を無視した部分一致。正規表現が不正なら null */
+function parseFilterQuery(query: string): ((text: string) => boolean) | null {
+  const q = query.trim();
+  if (!q) return () => true;
+  const re = q.match(/^\/(.+)\/([a-z]*)$/);
+  if (re) {
+    try {
+      // g / y は test() が lastIndex を持ち回るので外す
+      const flags = re[2].replace(/[gy]/g, "");
+      const pattern = new RegExp(re[1], flags.includes("i") ? flags : flags + "i");
+      return (text) => pattern.test(text);
+    } catch {
+      return null;
+    }
+  }
+  const needle = q.toLowerCase();
+  return (text) => text.toLowerCase().includes(needle);
+}
+
+function isFilterActive(): boolean {
+  return filterKind != null || filterInput.value.trim() !== "";
+}
+
+/** 絞り込み文字列（タイトル・URL）と種別チップの両方に合うタブ */
+function matchingTabs(win: { tabs: TabInfo[] }): TabInfo[] {
+  const match = parseFilterQuery(filterInput.value) ?? (() => true);
+  return win.tabs.filter(
+    (t) => (filterKind == null || tabKind(t) === filterKind) && match(`${t.title ?? ""}\n${t.url}`)
+  );
+}
+
+/** 一覧にある種別だけチップを出す（件数付き）。選択中のチップをもう一度押すと解除 */
+function renderFilterChips() {
+  const counts = new Map<TabKind, number>();
+  for (const t of allWindows.flatMap((w) => w.tabs)) counts.set(tabKind(t), (counts.get(tabKind(t)) ?? 0) + 1);
+  if (filterKind != null && !counts.has(filterKind)) filterKind = null;
+  filterChipsEl.innerHTML = "";
+  for (const [kind, count] of counts) {
+    const chip = document.createElement("button");
+    chip.type = "button";
+    chip.className = "filter-chip" + (kind === filterKind ? " active" : "");
+    chip.textContent = `${TAB_KIND_LABELS[kind]} ${count}`;
+    chip.addEventListener("click", () => {
+      filterKind = filterKind === kind ? null : kind;
+      renderTabList();
+    });
+    filterChipsEl.appendChild(chip);
   }
 }
 
+/** 絞り込みに合うタブ（全ウィンドウ）をまとめて選択 / 選択解除する */
+function setMatchingSelected(checked: boolean) {
+  const tabs = allWindows.flatMap((w) => matchingTabs(w));
+  for (const t of tabs) {
+    if (checked) selectedTabs.add(t.id);
+    else selectedTabs.delete(t.id);
+    const checkbox = document.getElementById(`tab-${t.id}`) as HTMLInputElement | null;
+    if (checkbox) checkbox.checked = checked;
+  }
+  syncWindowCheckboxes();
+  updateCopyButton();
+  showStatus(`${tabs.length}タブを${checked ? "選択" : "選択解除"}しました（選択中 ${selectedTabs.size}タブ）`, "info");
+}
+
 function renderTabList() {
   tabListEl.innerHTML = "";
+  filterInput.classList.toggle("invalid", parseFilterQuery(filterInput.value) == null);
+  renderFilterChips();
+  const filtering = isFilterActive();
   allWindows.forEach((win, winIndex) => {
+    const visibleTabs = matchingTabs(win);
+    if (filtering && visibleTabs.length === 0) return;
     const windowGroup = document.createElement("div");
     windowGroup.className = "window-group";
 
@@ -805,7 +334,9 @@ function renderTabList() {
     labelSpan.addEventListener("click", (e) => e.stopPropagation());
     const tabCountSpan = document.createElement("span");
     tabCountSpan.className = "window-tab-count";
-    tabCountSpan.textContent = ` (${win.tabs.length}タブ)`;
+    tabCountSpan.textContent = filtering
+      ? ` (${visibleTabs.length}/${win.tabs.length}タブ)`
+      : ` (${win.tabs.length}タブ)`;
     const imgToggle = document.createElement("label");
     imgToggle.className = "img-capture-toggle";
     imgToggle.addEventListener("click", (e) => e.stopPropagation());
@@ -827,39 +358,109 @@ function renderTabList() {
     windowHeader.appendChild(imgToggle);
     windowGroup.appendChild(windowHeader);
 
-    win.tabs.forEach((tab) => {
-      const tabItem = document.createElement("div");
-      tabItem.className = "tab-item";
-      if (tab.distillFailed) tabItem.classList.add("tab-failed");
-      const tabCheckbox = document.createElement("input");
-      tabCheckbox.type = "checkbox";
-      tabCheckbox.id = `tab-${tab.id}`;
-      tabCheckbox.checked = selectedTabs.has(tab.id);
-      tabCheckbox.addEventListener("change", (e) => {
-        toggleTab(tab.id, (e.target as HTMLInputElement).checked);
-      });
-      const tabInfo = document.createElement("div");
-      tabInfo.className = "tab-info";
-      const tabTitle = document.createElement("div");
-      tabTitle.className = "tab-title";
-      tabTitle.textContent = tab.title || "（無題）";
-      const tabUrl = document.createElement("div");
-      tabUrl.className = "tab-url";
-      tabUrl.textContent = tab.url;
-      tabInfo.appendChild(tabTitle);
-      tabInfo.appendChild(tabUrl);
-      if (tab.content) {
-        const tabContent = document.createElement("div");
-        tabContent.className = "tab-content";
-        tabContent.textContent = tab.content;
-        tabInfo.appendChild(tabContent);
+    let groupContainer: HTMLDivElement | null = null;
+    let currentGroupId: number | undefined;
+    visibleTabs.forEach((tab) => {
+      const group = win.groups.find((g) => g.id === tab.groupId);
+      if (!group) {
+        groupContainer = null;
+        currentGroupId = undefined;
+        windowGroup.appendChild(renderTabItem(tab));
+        return;
+      }
+      if (!groupContainer || currentGroupId !== group.id) {
+        groupContainer = renderGroupContainer(winIndex, group);
+        currentGroupId = group.id;
+        windowGroup.appendChild(groupContainer);
       }
-      tabItem.appendChild(tabCheckbox);
-      tabItem.appendChild(tabInfo);
-      windowGroup.appendChild(tabItem);
+      groupContainer.appendChild(renderTabItem(tab));
     });
     tabListEl.appendChild(windowGroup);
   });
+  if (filtering && tabListEl.childElementCount === 0) {
+    tabListEl.textContent = "一致するタブはありません";
+  }
+}
+
+/** タブグループの見出し（チェックボックス・色・編集可能ラベル）付きコンテナを作る */
+function renderGroupContainer(winIndex: number, group: TabGroupInfo): HTMLDivElement {
+  const win = allWindows[winIndex];
+  const groupTabs = win.tabs.filter((t) => t.groupId === group.id);
+  const container = document.createElement("div");
+  container.className = "tab-group";
+  const color = GROUP_COLOR_CSS[group.color] ?? "#999";
+  container.style.borderLeftColor = color;
+
+  const header = document.createElement("div");
+  header.className = "group-header";
+  const groupCheckbox = document.createElement("input");
+  groupCheckbox.type = "checkbox";
+  groupCheckbox.id = `group-${group.id}`;
+  groupCheckbox.checked = groupTabs.some((t) => selectedTabs.has(t.id));
+  groupCheckbox.addEventListener("change", (e) => {
+    toggleGroup(winIndex, group.id, (e.target as HTMLInputElement).checked);
+  });
+  const colorDot = document.createElement("span");
+  colorDot.className = "group-color";
+  colorDot.style.background = color;
+  const labelSpan = document.createElement("span");
+  labelSpan.className = "window-label-editable";
+  labelSpan.contentEditable = "true";
+  labelSpan.textContent = group.label;
+  labelSpan.title = "クリックして編集。Enterで確定";
+  labelSpan.addEventListener("blur", () => {
+    const next = (labelSpan.textContent || "").trim();
+    if (next) group.label = next;
+  });
+  labelSpan.addEventListener("keydown", (e) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      labelSpan.blur();
+    }
+  });
+  const countSpan = document.createElement("span");
+  countSpan.className = "window-tab-count";
+  countSpan.textContent = ` (${groupTabs.length}タブ)`;
+  header.appendChild(groupCheckbox);
+  header.appendChild(colorDot);
+  header.appendChild(labelSpan);
+  header.appendChild(countSpan);
+  container.appendChild(header);
+  return container;
+}
+
+function renderTabItem(tab: TabInfo): HTMLDivElement {
+  const tabItem = document.createElement("div");
+  tabItem.className = "tab-item";
+  if (tab.distillFailed) tabItem.classList.add("tab-failed");
+  const tabCheckbox = document.createElement("input");
+  tabCheckbox.type = "checkbox";
+  tabCheckbox.id = `tab-${tab.id}`;
+  tabCheckbox.checked = selectedTabs.has(tab.id);
+  tabCheckbox.addEventListener("change", (e) => {
+    toggleTab(tab.id, (e.target as HTMLInputElement).checked);
+  });
+  const tabInfo = document.createElement("div");
+  tabInfo.className = "tab-info";
+  const tabTitle = document.createElement("div");
+  tabTitle.className = "tab-title";
+  tabTitle.textContent = tab.title || "（無題）";
+  const tabUrl = document.createElement("div");
+  tabUrl.className = "tab-url";
+  tabUrl.textContent = tab.url;
+  tabInfo.appendChild(tabTitle);
+  tabInfo.appendChild(tabUrl);
+  if (tab.existingClipPath) tabInfo.appendChild(renderDuplicateControl(tab));
+  for (const conflict of tab.writeConflicts ?? []) tabInfo.appendChild(renderWriteConflict(conflict));
+  if (tab.content) {
+    const tabContent = document.createElement("div");
+    tabContent.className = "tab-content";
+    tabContent.textContent = tab.content;
+    tabInfo.appendChild(tabContent);
+  }
+  tabItem.appendChild(tabCheckbox);
+  tabItem.appendChild(tabInfo);
+  return tabItem;
 }
 
 function toggleWindow(winIndex: number, checked: boolean) {
@@ -874,10 +475,102 @@ function toggleWindow(winIndex: number, checked: boolean) {
   updateCopyButton();
 }
 
+const DUPLICATE_ACTION_LABELS: Record<DuplicateAction, string> = {
+  skip: "スキップ",
+  resummarize: "既存ノートに再要約",
+  new: "別ノートとして再クリップ",
+  append: "新しいターンを追記",
+};
+
+/** 既存クリップがあるタブに「保存済み」表示と扱いの選択を付ける */
+function renderDuplicateControl(tab: TabInfo): HTMLDivElement {
+  const row = document.createElement("div");
+  row.className = "tab-duplicate";
+  const badge = document.createElement("span");
+  badge.className = "dup-badge";
+  badge.textContent = "保存済み";
+  badge.title = tab.existingClipPath ?? "";
+  const select = document.createElement("select");
+  for (const [value, label] of Object.entries(DUPLICATE_ACTION_LABELS)) {
+    if (value === "append" && !tab.chatService) continue;
+    const option = document.createElement("option");
+    option.value = value;
+    option.textContent = label;
+    select.appendChild(option);
+  }
+  select.value = tab.duplicateAction ?? "skip";
+  select.addEventListener("change", () => {
+    tab.duplicateAction = select.value as DuplicateAction;
+    const checked = tab.duplicateAction !== "skip";
+    const checkbox = document.getElementById(`tab-${tab.id}`) as HTMLInputElement | null;
+    if (checkbox) checkbox.checked = checked;
+    toggleTab(tab.id, checked);
+  });
+  row.appendChild(badge);
+  row.appendChild(select);
+  return row;
+}
+
+/** 直近の保存で既存ファイルとぶつかった書き込み（別名で保存した・書かなかった）を表示する */
+function renderWriteConflict(conflict: WriteConflict): HTMLDivElement {
+  const row = document.createElement("div");
+  row.className = "tab-conflict";
+  const badge = document.createElement("span");
+  badge.className = "conflict-badge";
+  badge.textContent = conflict.resolution === "renamed" ? "別名で保存" : "書き込み中止";
+  const detail = document.createElement("span");
+  detail.textContent =
+    conflict.resolution === "renamed" ? `${conflict.path} → ${conflict.writtenPath}` : `${conflict.path} が既にあります`;
+  row.appendChild(badge);
+  row.appendChild(detail);
+  return row;
+}
+
+/** Vault に同じ URL のクリップがあるタブを検出し、既定でスキップ（選択解除）にする。チャットは続きがあるので既定で追記 */
+async function markExistingClips() {
+  const tabs = allWindows.flatMap((w) => w.tabs).filter((t) => t.url.startsWith("http"));
+  if (tabs.length === 0) return;
+  const sink = await loadStorageSink();
+  const reachable = sink != null && (await sink.healthCheck());
+  const found = await lookupExistingClips(
+    tabs.map((t) => t.url),
+    reachable ? sink : null
+  );
+  if (found.size === 0) return;
+  for (const t of tabs) {
+    const hit = found.get(t.url);
+    if (!hit) continue;
+    t.existingClipPath = hit.path;
+    t.duplicateAction = t.chatService ? "append" : "skip";
+    if (!t.chatService) selectedTabs.delete(t.id);
+  }
+  renderTabList();
+  updateCopyButton();
+  showStatus(`保存済みのタブが ${found.size}件あります（既定はスキップ、チャットは新しいターンを追記）`, "info");
+}
+
+function toggleGroup(winIndex: number, groupId: number, checked: boolean) {
+  const win = allWindows[winIndex];
+  win.tabs
+    .filter((tab) => tab.groupId === groupId)
+    .forEach((tab) => {
+      if (checked) selectedTabs.add(tab.id);
+      else selectedTabs.delete(tab.id);
+      const checkbox = document.getElementById(`tab-${tab.id}`) as HTMLInputElement | null;
+      if (checkbox) checkbox.checked = checked;
+    });
+  syncWindowCheckboxes();
+  updateCopyButton();
+}
+
 function syncWindowCheckboxes() {
   allWindows.forEach((win, winIndex) => {
     const cb = document.getElementById(`window-${winIndex}`) as HTMLInputElement | null;
     if (cb) cb.checked = win.tabs.some((t) => selectedTabs.has(t.id));
+    win.groups.forEach((g) => {
+      const gcb = document.getElementById(`group-${g.id}`) as HTMLInputElement | null;
+      if (gcb) gcb.checked = win.tabs.some((t) => t.groupId === g.id && selectedTabs.has(t.id));
+    });
   });
 }
 
@@ -892,657 +585,8 @@ function updateCopyButton() {
   saveBtn.disabled = selectedTabs.size === 0;
 }
 
-function uid8(): string {
-  try {
-    return crypto.randomUUID().replace(/-/g, "").slice(0, 8);
-  } catch {
-    return Date.now().toString(36).slice(-8);
-  }
-}
-
-/** Obsidian リンク文字列 "[...](url)" から href を取得 */
-function hrefFromObsidianLink(obsidianLink: string): string | null {
-  const m = obsidianLink.match(/\]\((https?:\S+)\)$/);
-  return m ? m[1] : null;
-}
-
-/** 本文テキストから http(s) URL を抽出（重複除く・最大20件） */
-function extractUrlsFromText(text: string): string[] {
-  if (!text?.trim()) return [];
-  const re = /https?:\/\/[^\s<>"')\]]+/g;
-  const found = text.match(re) ?? [];
-  const normalized = found.map((u) => u.replace(/[.,;:!?)]+$/, ""));
-  return [...new Set(normalized)].slice(0, 20);
-}
-
-/** 要約 md の「## 要点」リスト末尾に本文中の URL を追記（コードで囲まない） */
-function appendUrlsToPointsSection(md: string, urls: string[]): string {
-  if (urls.length === 0) return md;
-  const pointsHeading = "## 要点\n";
-  const idx = md.indexOf(pointsHeading);
-  if (idx === -1) return md;
-  const afterPoints = idx + pointsHeading.length;
-  const nextSection = md.indexOf("\n\n## ", afterPoints);
-  const insertAt = nextSection !== -1 ? nextSection : md.length;
-  const lines = urls.map((u) => "- " + u).join("\n");
-  return md.slice(0, insertAt) + "\n" + lines + md.slice(insertAt);
-}
-
-function todayDate(): string {
-  const d = new Date();
-  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
-}
-
-function buildClipFrontmatter(opts: {
-  url: string;
-  rawContentPath: string;
-  windowLabel: string;
-  hasRaw: boolean;
-}): string {
-  const sourceType = detectSourceType(opts.url);
-  const rawPolicy = opts.hasRaw ? "stored" : "url_only";
-  return [
-    "---",
-    `source_type: ${sourceType}`,
-    `pipeline: summary`,
-    `raw_policy: ${rawPolicy}`,
-    `date: ${todayDate()}`,
-    `window: ${opts.windowLabel}`,
-    `url: ${opts.url}`,
-    `raw_content: ${opts.rawContentPath}`,
-    `linked_from: tabReaper`,
-    "---",
-  ].join("\n");
-}
-
-function buildPlaceholderSummaryMd(tab: TabInfo, rawContentPath?: string, windowLabel?: string): string {
-  const rawLine = rawContentPath ?? "（未設定）";
-  const fm = buildClipFrontmatter({
-    url: tab.url,
-    rawContentPath: rawLine,
-    windowLabel: windowLabel ?? "",
-    hasRaw: rawContentPath != null && rawContentPath !== "（未設定）",
-  });
-  const pointLines =
-    (tab.extractedUrls?.length ?? 0) > 0
-      ? "- （要約は未取得）\n" + tab.extractedUrls!.map((u) => "- " + u).join("\n")
-      : "- （要約は未取得）";
-  return `${fm}
-
-## 要点
-${pointLines}
-
-## 要約
-（未取得）
-
-### tags
-（未設定）
-`;
-}
-
-/** タブからファイル名用の短いベース名を取得（要約・raw で共通） */
-function getBaseForTab(tab: TabInfo): string {
-  return (tab.title || "untitled")
-    .replace(/[/\\:*?"<>|]/g, "_")
-    .replace(/\s+/g, " ")
-    .trim()
-    .slice(0, SHORT_TITLE_MAX_LEN) || "untitled";
-}
-
-function addPlaceholderFilenames(
-  byWindow: { windowIndex: number; windowLabel: string; tabs: TabInfo[] }[]
-) {
-  byWindow.forEach((w) => {
-    w.tabs.forEach((tab) => {
-      const uid = tab.uid8 ?? uid8();
-      const base = tab.baseForFilename ?? getBaseForTab(tab);
-      if (!tab.uid8) tab.uid8 = uid;
-      if (!tab.baseForFilename) tab.baseForFilename = base;
-      const prefix = tab.chatService ? "c-" : detectSourceType(tab.url ?? "") === "x" ? "p-x-" : "p-";
-      tab.summaryFilename = `${prefix}${base}_${uid}.md`;
-      tab.summaryContent = buildPlaceholderSummaryMd(tab, tab.rawContentPathForSummary, w.windowLabel);
-      tab.summaryVaultDir = tab.chatService ? VAULT_REFERENCE_DIR : VAULT_CLIP_DIR;
-    });
-  });
-}
-
-/** memory/raw_content 形式の .md 本文を組み立て（ROOM/memory/raw_content を参考） */
-function buildRawContentMd(
-  bodyText: string,
-  url: string,
-  createdAt: string
-): string {
-  const normalized = normalizeUrlForDedup(url);
-  const chars = (bodyText || "").length;
-  const front = [
-    "---",
-    "kind: raw_content",
-    `created_at: ${createdAt}`,
-    `updated_at: ${createdAt}`,
-    "source: jina",
-    `url: "${url.replace(/"/g, '\\"')}"`,
-    `normalized_url: "${normalized.replace(/"/g, '\\"')}"`,
-    `chars: ${chars}`,
-    "---",
-    "",
-  ].join("\n");
-  return front + (bodyText || "");
-}
-
-const CHAT_FOOTER_PATTERNS = [
-  /^ツール\s*$/m,
-  /^Gemini\s.*間違えることがあります。?\s*$/m,
-  /^ChatGPT\s.*間違えることがあります。?\s*$/m,
-  /^Claude\s.*間違えることがあります。?\s*$/m,
-];
-
-function stripChatFooter(text: string): string {
-  let t = text;
-  for (const p of CHAT_FOOTER_PATTERNS) t = t.replace(p, "");
-  return t.trimEnd();
-}
-
-function formatChatTurns(messages: ChatMessage[]): string {
-  if (messages.length === 0) return "";
-  return messages.map((m) => `### ${m.speaker}\n${stripChatFooter(m.text)}`).join("\n\n");
-}
-
-type AttributionItem = { idea: string; origin: string; evidence?: string; accepted?: string };
-type Phase1Like = { attribution_ledger: Array<{ idea: string; origin: string; confidence: string; accepted: string }>; anchor: unknown };
-
-function buildAttributionMd(
-  attributions: AttributionItem[] | undefined,
-  phase1: Phase1Like | undefined
-): string {
-  const sections: string[] = [];
-  if (attributions && attributions.length > 0) {
-    sections.push("## 帰属分析");
-    for (const a of attributions) {
-      sections.push(`- idea: ${a.idea} | origin: ${a.origin} | accepted: ${a.accepted ?? ""} | evidence: ${a.evidence ?? ""}`);
-    }
-  }
-  if (phase1?.attribution_ledger && phase1.attribution_ledger.length > 0) {
-    sections.push("");
-    sections.push("## 帰属台帳");
-    for (const a of phase1.attribution_ledger) {
-      sections.push(`- ${a.idea} (${a.origin}, ${a.confidence}) → ${a.accepted}`);
-    }
-  }
-  return sections.join("\n");
-}
-
-function buildChatDistillSource(messages: ChatMessage[], rawText: string): string {
-  if (messages.length === 0) return rawText;
-  const full = messages.map((m) => `${m.speaker}:\n${m.text}`).join("\n\n");
-  const tailCount = Math.min(10, messages.length);
-  const tail = messages
-    .slice(-tailCount)
-    .map((m) => `${m.speaker}:\n${m.text}`)
-    .join("\n\n");
-  return [
-    "【要約方針】会話全体を要約しつつ、後半（最新側）の論点・結論を重視すること。",
-    "",
-    "【全体会話】",
-    full,
-    "",
-    "【後半重点（最新）】",
-    tail,
-  ].join("\n");
-}
-
-function normalizeSentence(s: string): string {
-  return s.replace(/\s+/g, " ").trim();
-}
-
-function splitJapaneseSentences(text: string): string[] {
-  const normalized = normalizeSentence(text);
-  if (!normalized) return [];
-  const parts = normalized
-    .split(/(?<=[。！？!?])/)
-    .map((p) => normalizeSentence(p))
-    .filter(Boolean);
-  return parts.length > 0 ? parts : [normalized];
-}
-
-function pickGlobalThreePoints(summary: string, details: string[]): string[] {
-  const sentences = splitJapaneseSentences(summary);
-  if (sentences.length >= 3) {
-    const mid = Math.floor((sentences.length - 1) / 2);
-    return [sentences[0], sentences[mid], sentences[sentences.length - 1]].map(normalizeSentence);
-  }
-  if (sentences.length === 2) {
-    const fallback = details.find((d) => normalizeSentence(d).length > 0) ?? "";
-    return [sentences[0], sentences[1], fallback || sentences[1]].map(normalizeSentence);
-  }
-  if (sentences.length === 1) {
-    const clauses = sentences[0]
-      .split(/、|，|;|；/g)
-      .map((c) => normalizeSentence(c))
-      .filter(Boolean);
-    if (clauses.length >= 3) {
-      const mid = Math.floor((clauses.length - 1) / 2);
-      return [clauses[0], clauses[mid], clauses[clauses.length - 1]];
-    }
-    const topDetails = details
-      .map((d) => normalizeSentence(d))
-      .filter(Boolean)
-      .slice(0, 2);
-    return [sentences[0], ...topDetails].slice(0, 3);
-  }
-  const ds = details.map((d) => normalizeSentence(d)).filter(Boolean).slice(0, 3);
-  return ds.length > 0 ? ds : ["（distill未取得）"];
-}
-
-function buildTaskReaperApiKeys(provider: AIProvider, apiKey: string): APIKeySettings {
-  const keys: APIKeySettings = {};
-  if (provider === "gemini") keys.geminiApiKey = apiKey;
-  if (provider === "openai") keys.openaiApiKey = apiKey;
-  if (provider === "claude") keys.claudeApiKey = apiKey;
-  return keys;
-}
-
-async function runChatDistillPipeline(input: {
-  text: string;
-  metadata?: { title?: string; [key: string]: unknown };
-  provider: AIProvider;
-  modelId: string;
-  apiKey: string;
-}): Promise<Awaited<ReturnType<typeof runDistill>>> {
-  const chatComplete = async (
-    _role: string,
-    messages: Array<{ role: string; content: string }>,
-    systemPrompt?: string
-  ): Promise<string> => {
-    const res = await callAI(input.provider, messages, {
-      apiKey: input.apiKey,
-      model: input.modelId,
-      timeout: 60000,
-      maxTokens: 3000,
-      temperature: 0.2,
-      ...(systemPrompt ? { system: systemPrompt } : {}),
-    });
-    return (res.text || "").trim();
-  };
-
-  return runDistill(
-    {
-      text: input.text,
-      mode: "chat",
-      metadata: input.metadata,
-    },
-    chatComplete
-  );
-}
-
-type ChatDistillJson = {
-  short_title: string;
-  points: string[];
-  summary: string;
-  lessons: string[];
-  longSummary: string;
-  topic_solutions: string[];
-  tags: string;
-};
-
-function parseChatDistillJson(raw: string): ChatDistillJson {
-  const t = (raw || "").trim();
-  const codeBlock = t.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
-  const jsonText = (codeBlock ? codeBlock[1] : t).trim();
-  const parsed = JSON.parse(jsonText) as Record<string, unknown>;
-  return {
-    short_title: String(parsed.short_title || ""),
-    points: Array.isArray(parsed.points) ? parsed.points.map(String).filter(Boolean) : [],
-    summary: String(parsed.summary || ""),
-    lessons: Array.isArray(parsed.lessons) ? parsed.lessons.map(String).filter(Boolean) : [],
-    longSummary: String(parsed.longSummary || ""),
-    topic_solutions: Array.isArray(parsed.topic_solutions)
-      ? parsed.topic_solutions.map(String).filter(Boolean)
-      : [],
-    tags: String(parsed.tags || ""),
-  };
-}
-
-function buildChatDistillPrompt(): string {
-  return `あなたは会話ログ要約の実行器です。入力された会話を読み、JSONのみを返してください。
-
-## 出力形式（JSONのみ）
-\`\`\`json
-{
-  "short_title": "ファイル名用の短いタイトル（20文字以内・日本語）",
-  "points": ["要点1", "要点2", "..."],
-  "summary": "要約（3〜6文）",
-  "lessons": ["教訓1", "教訓2", "..."],
-  "longSummary": "詳細要約（十分なボリューム。重要論点を広くカバー）",
-  "topic_solutions": ["話題A → 解決法A", "話題B → 解決法B", "..."],
-  "tags": "タグ1, タグ2, タグ3"
-}
-\`\`\`
-
-## ルール
-- 会話全体を対象にしつつ、後半（最新側）の論点・結論を重視する
-- 捏造禁止。本文にないことは書かない
-- すべて日本語で出力
-- points は **ちょうど3項目**（不足時も3項目に要約して出す）
-- lessons は 3〜8 項目
-- topic_solutions は必要なだけ列挙する（上限なし）。「話題 → 解決法」の構造で書く
-- 長文でも論点を落とさず、抽象化しすぎない
-- 余計な説明文は付けず JSON のみ返す`;
-}
-
-function buildChatRawContentMd(
-  rawText: string,
-  url: string,
-  service: string,
-  createdAt: string
-): string {
-  const normalized = normalizeUrlForDedup(url);
-  const body = rawText ?? "";
-  const chars = body.length;
-  const front = [
-    "---",
-    "kind: raw_chat",
-    `created_at: ${createdAt}`,
-    `updated_at: ${createdAt}`,
-    "source: tabReaper",
-    `service: ${service}`,
-    `url: "${url.replace(/"/g, '\\"')}"`,
-    `normalized_url: "${normalized.replace(/"/g, '\\"')}"`,
-    `chars: ${chars}`,
-    "---",
-    "",
-  ].join("\n");
-  return front + body;
-}
-
-function buildChatReferenceFrontmatter(opts: {
-  url: string;
-  rawContentPath: string;
-  rawChatPath: string;
-  windowLabel: string;
-  hasRaw: boolean;
-  service: string;
-  extraction: { domTurns: number; turns: number; rawChars: number; partial: boolean; warnings: string[] };
-}): string {
-  const rawPolicy = opts.hasRaw ? "stored" : "url_only";
-  return [
-    "---",
-    "source_type: chat",
-    "pipeline: distill",
-    `raw_policy: ${rawPolicy}`,
-    `date: ${todayDate()}`,
-    `service: ${opts.service}`,
-    `window: ${opts.windowLabel}`,
-    `url: ${opts.url}`,
-    `raw_content: ${opts.rawContentPath}`,
-    `raw_chat: ${opts.rawChatPath}`,
-    "linked_from: tabReaper",
-    `extraction_dom_turns: ${opts.extraction.domTurns}`,
-    `extraction_turns: ${opts.extraction.turns}`,
-    `extraction_raw_chars: ${opts.extraction.rawChars}`,
-    `extraction_partial: ${opts.extraction.partial}`,
-    `extraction_warnings: ${JSON.stringify(opts.extraction.warnings)}`,
-    "---",
-  ].join("\n");
-}
-
-/** Twitter/X のときはタブでスレッド（本ツイート＋本人続き）を取得。失敗時は null */
-async function fetchTwitterThreadText(tabId: number): Promise<string | null> {
-  try {
-    const result = await chrome.scripting.executeScript({
-      target: { tabId },
-      func: extractTwitterThreadInPage,
-    });
-    const raw = result?.[0]?.result;
-    if (typeof raw !== "string" || !raw.trim()) return null;
-    return raw.trim();
-  } catch {
-    return null;
-  }
-}
-
-async function runUrlSummaryForTab(
-  tab: TabInfo,
-  apiKey: string,
-  provider: AIProvider,
-  modelId: string,
-  windowLabel: string,
-): Promise<{ summaryFilename: string; summaryContent: string; outputDir: string }> {
-  const uid = tab.uid8 ?? uid8();
-  const rawPath = tab.rawContentPathForSummary ?? "（未設定）";
-  const hasRaw = rawPath !== "（未設定）";
-  const sourceType = detectSourceType(tab.url ?? "");
-  const st: "web" | "x" | "youtube" | "paper" | "chat" = sourceType === "blog" ? "web" : sourceType;
-
-  if (st === "youtube") {
-    const clipPrefix = "p-";
-    const summaryFilename = `${clipPrefix}untitled_${uid}.md`;
-    const summaryContent = buildPlaceholderSummaryMd(tab, tab.rawContentPathForSummary, windowLabel);
-    return { summaryFilename, summaryContent, outputDir: VAULT_CLIP_DIR };
-  }
-
-  const mode: "summary" | "analysis" = st === "web" || st === "paper" ? "analysis" : "summary";
-  const rawExtractedText = (tab.rawContent || "").trim();
-  let text = rawExtractedText;
-  if (!text) {
-    if (isTwitterUrl(tab.url)) {
-      const threadText = await fetchTwitterThreadText(tab.id);
-      text = (threadText && threadText.length > 0 ? threadText : null) ?? (await fetchViaJina(tab.url, 15000));
-    } else {
-      text = await fetchViaJina(tab.url, 15000);
-    }
-  } else if (isTwitterUrl(tab.url) && mode === "summary") {
-    // x はスレッド抽出を優先し、取れなければ本文抽出/最終的に Jina へフォールバック
-    const threadText = await fetchTwitterThreadText(tab.id);
-    text = (threadText && threadText.length > 0 ? threadText : rawExtractedText) || (await fetchViaJina(tab.url, 15000));
-  }
-
-  try {
-    const raw = await generateSummaryJson({
-      fetchedText: text,
-      sourceUrl: tab.url,
-      apiKey,
-      provider,
-      model: modelId,
-      mode,
-      sourceType: st,
-      headings: tab.headings,
-      timeout: 90000,
-    });
-    const json = parseSummaryJson(raw);
-    const shortTitle =
-      getShortTitleForFilename(json.short_title) || generateShortTitle({ rawTitle: tab.title || "", url: tab.url });
-    const claim = (json.claim ?? "").trim() || undefined;
-    const topics = json.topics ?? (json.structure
-      ? [{ topic: "要点", points: json.structure.filter(Boolean) }]
-      : [...(json.three_point ?? []), ...(json.how_to ?? [])].filter(Boolean).length > 0
-        ? [{ topic: "要点", points: [...(json.three_point ?? []), ...(json.how_to ?? [])].filter(Boolean) }]
-        : []);
-    const summary = (json.shortSummary ?? json.summary ?? "").trim();
-    const tags = (json.tags ?? "").trim();
-    const out = logger({
-      mode: "clip",
-      sourceType: st,
-      pipeline: "summary",
-      rawPolicy: hasRaw ? "stored" : "url_only",
-      date: todayDate(),
-      window: windowLabel,
-      url: tab.url ?? "",
-      rawContentPath: rawPath,
-      shortTitle,
-      uid8: uid,
-      claim,
-      topics,
-      catchphrases: json.catchphrases,
-      credibility: json.credibility,
-      howTo: json.how_to,
-      summary,
-      tags,
-      extractedUrls: tab.extractedUrls,
-    });
-    return { summaryFilename: out.filename, summaryContent: out.content, outputDir: out.outputDir };
-  } catch {
-    const clipPrefix = st === "x" ? "p-x-" : "p-";
-    const summaryFilename = `${clipPrefix}untitled_${uid}.md`;
-    const summaryContent = buildPlaceholderSummaryMd(tab, tab.rawContentPathForSummary, windowLabel);
-    return {
-      summaryFilename,
-      summaryContent,
-      outputDir: VAULT_CLIP_DIR,
-    };
-  }
-}
-
-async function runChatDistillForTab(
-  tab: TabInfo,
-  apiKey: string,
-  provider: AIProvider,
-  modelId: string,
-  windowLabel: string,
-  chatContent: { messages: ChatMessage[]; raw_text: string },
-  rawChatPath: string
-): Promise<{ summaryFilename: string; summaryContent: string; outputDir: string } | null> {
-  const uid = tab.uid8 ?? uid8();
-  const messages = chatContent.messages;
-  const conversationMd =
-    messages.length > 0 ? formatChatTurns(messages) : chatContent.raw_text.slice(0, 50000);
-  const distillSource = buildChatDistillSource(messages, chatContent.raw_text);
-  const turnsCount = messages.length;
-  const rawChars = (chatContent.raw_text || "").length;
-  const userCount = messages.filter((m) => m.speaker === "user").length;
-  const asstCount = messages.filter((m) => m.speaker === "assistant").length;
-  const warnings: string[] = [];
-  if (turnsCount < 4) warnings.push("low_turn_count");
-  if (rawChars < 80) warnings.push("short_raw_text");
-  if (Math.max(userCount, asstCount) >= 3 * Math.max(Math.min(userCount, asstCount), 1)) warnings.push("biased_roles");
-  const extraction = {
-    domTurns: 0,
-    turns: turnsCount,
-    rawChars,
-    partial: warnings.length > 0,
-    warnings,
-  };
-  const rawPath = tab.rawContentPathForSummary ?? "（未設定）";
-  const hasRaw = rawPath !== "（未設定）";
-  const fm = buildChatReferenceFrontmatter({
-    url: tab.url,
-    rawContentPath: rawPath,
-    rawChatPath,
-    windowLabel,
-    hasRaw,
-    service: tab.chatService ?? "unknown",
-    extraction,
-  });
-
-  const normalizedInput = {
-    messages,
-    metadata: {
-      source_type: "chat",
-      title: tab.title || "",
-      url: tab.url,
-      service: tab.chatService ?? "unknown",
-    },
-    raw_text: chatContent.raw_text,
-  };
-
-  for (let attempt = 0; attempt < 2; attempt++) {
-    try {
-      const metadata = {
-        source_type: "chat" as const,
-        title: tab.title || "",
-        url: tab.url,
-        service: tab.chatService ?? "unknown",
-      };
-      const distillResult = await runChatDistillPipeline({
-        text: distillSource.slice(0, 80000),
-        metadata,
-        provider,
-        modelId,
-        apiKey,
-      });
-
-      const taskReaperOut =
-        distillResult.action != null
-          ? await runTaskReaperProcess(
-              {
-                mode: "actions",
-                source: "distill",
-                distillOutput: distillResult.action,
-                normalizedInput,
-                metadata,
-              },
-              buildTaskReaperApiKeys(provider, apiKey)
-            )
-          : {
-              mode: "actions" as const,
-              summary: distillResult.summary || distillResult.synthesis?.summary || "（要約なし）",
-              actions: [],
-            };
-
-      const synthesisShortTitle = (distillResult.synthesis?.short_title || "").trim();
-      const titleSeed = synthesisShortTitle || (taskReaperOut.summary || "").trim() || (tab.title || "").trim();
-      const shortTitle =
-        getShortTitleForFilename(titleSeed) || generateShortTitle({ rawTitle: titleSeed, url: tab.url });
-      const claim = distillResult.synthesis?.claim ?? "";
-      const catchphrases = distillResult.synthesis?.catchphrases ?? [];
-      const topics = distillResult.logical?.topics ?? [];
-      const emotionalForLogger = distillResult.emotional;
-      const phase1ForLogger = distillResult.phase1
-        ? {
-            attribution_ledger: distillResult.phase1.attribution_ledger.map((a) => ({
-              idea: a.idea,
-              origin: a.origin,
-              confidence: a.confidence,
-              accepted: a.accepted,
-            })),
-            anchor: distillResult.phase1.anchor,
-          }
-        : undefined;
-
-      const attributionMd = buildAttributionMd(distillResult.emotional?.attributions, phase1ForLogger);
-      const fullConversationMd = attributionMd ? `${conversationMd}\n\n${attributionMd}` : conversationMd;
-
-      const out = logger({
-        mode: "reference",
-        sourceType: "chat",
-        pipeline: "distill",
-        distillMode: distillResult.mode ?? "logical",
-        rawPolicy: hasRaw ? "stored" : "url_only",
-        date: todayDate(),
-        window: windowLabel,
-        service: tab.chatService ?? "unknown",
-        url: tab.url ?? "",
-        rawContentPath: rawPath,
-        rawChatPath,
-        shortTitle,
-        uid8: uid,
-        claim,
-        catchphrases,
-        summary: taskReaperOut.summary ?? "",
-        topics,
-        conversationMd: fullConversationMd,
-        emotional: emotionalForLogger,
-        phase1: phase1ForLogger,
-        extractionDomTurns: extraction.domTurns,
-        extractionTurns: extraction.turns,
-        extractionRawChars: extraction.rawChars,
-        extractionPartial: extraction.partial,
-        extractionWarnings: extraction.warnings,
-      });
-      return { summaryFilename: out.filename, summaryContent: out.content, outputDir: out.outputDir };
-    } catch (err) {
-      console.error(`chat distill error (attempt ${attempt + 1}/2):`, tab.url, err);
-    }
-  }
-  return null;
-}
-
-function getSelectedTabsByWindow(): {
-  windowIndex: number;
-  windowLabel: string;
-  tabs: TabInfo[];
-  captureImages: boolean;
-}[] {
-  const byWindow: { windowIndex: number; windowLabel: string; tabs: TabInfo[]; captureImages: boolean }[] = [];
+function getSelectedTabsByWindow(): SelectedWindow[] {
+  const byWindow: SelectedWindow[] = [];
   allWindows.forEach((win, winIndex) => {
     const tabs = win.tabs.filter((t) => selectedTabs.has(t.id));
     if (tabs.length === 0) return;
@@ -1550,6 +594,9 @@ function getSelectedTabsByWindow(): {
       windowIndex: winIndex + 1,
       windowLabel: win.label,
       captureImages: win.captureImages ?? false,
+      groups: win.groups
+        .filter((g) => tabs.some((t) => t.groupId === g.id))
+        .map((g) => ({ ...g })),
       tabs: tabs.map((t) => ({
         id: t.id,
         title: t.title,
@@ -1557,6 +604,9 @@ function getSelectedTabsByWindow(): {
         content: t.content,
         discarded: t.discarded,
         chatService: t.chatService,
+        groupId: t.groupId,
+        existingClipPath: t.existingClipPath,
+        duplicateAction: t.duplicateAction,
       })),
     });
   });
@@ -1604,24 +654,8 @@ async function refineWindowLabelsWithAI(
 
 /** ポップアップ用: allWindows のラベルを作業AIで短縮（APIキーがあれば取得直後に実行） */
 async function refineAllWindowsLabelsOnFetch(): Promise<void> {
-  let apiKey: string | undefined;
-  let workerModel: { modelId: string; provider: AIProvider } | null = null;
-  try {
-    const o = await chrome.storage.local.get([
-      STORAGE_KEYS.apiKeyGemini,
-      STORAGE_KEYS.apiKeyOpenAI,
-      STORAGE_KEYS.apiKeyClaude,
-    ]);
-    const settings: APIKeySettings = {
-      geminiApiKey: (o[STORAGE_KEYS.apiKeyGemini] || "").trim() || undefined,
-      openaiApiKey: (o[STORAGE_KEYS.apiKeyOpenAI] || "").trim() || undefined,
-      claudeApiKey: (o[STORAGE_KEYS.apiKeyClaude] || "").trim() || undefined,
-    };
-    workerModel = requireModelForRole("worker", settings);
-    apiKey = getApiKeyForProvider(workerModel.provider, settings);
-  } catch {
-    return;
-  }
+  const workerModel = await loadWorkerModel();
+  const apiKey = workerModel?.apiKey;
   if (!workerModel || !apiKey || allWindows.length === 0) return;
   for (let i = 0; i < allWindows.length; i++) {
     if (allWindows[i].labelFromSelection) continue;
@@ -1635,298 +669,176 @@ async function refineAllWindowsLabelsOnFetch(): Promise<void> {
   }
 }
 
-async function saveTabSummariesToVault(
-  cfg: ObsidianRestConfig,
-  byWindow: { windowIndex: number; windowLabel: string; tabs: TabInfo[] }[]
-): Promise<Set<number>> {
-  const failedSummaryTabIds = new Set<number>();
-  const flat = byWindow.flatMap((w) => w.tabs).filter((t) => t.summaryFilename && t.summaryContent);
-  for (const tab of flat) {
-    const dir = tab.summaryVaultDir ?? (tab.chatService ? VAULT_REFERENCE_DIR : VAULT_CLIP_DIR);
-    try {
-      await putVaultFile(cfg, `${dir}/${tab.summaryFilename!}`, tab.summaryContent!);
-    } catch (e) {
-      failedSummaryTabIds.add(tab.id);
-      console.error("summary save error:", tab.url, e);
-    }
-  }
-  return failedSummaryTabIds;
-}
-
-async function saveRawToVault(
-  cfg: ObsidianRestConfig,
-  byWindow: { windowIndex: number; windowLabel: string; tabs: TabInfo[] }[]
-) {
-  const flat = byWindow.flatMap((w) => w.tabs).filter((t) => t.rawFilename && t.rawContent);
-  for (const tab of flat) {
-    await putVaultFile(cfg, `${VAULT_RAW_DIR}/${tab.rawFilename!}`, tab.rawContent!, "text/markdown");
+async function saveSelectedTabs() {
+  if (selectedTabs.size === 0) {
+    showStatus("タブを選択してください", "error");
+    return;
   }
-  const chatRawTabs = byWindow.flatMap((w) => w.tabs).filter((t) => t.chatRawFilename && t.chatRawContent);
-  for (const tab of chatRawTabs) {
-    await putVaultFile(cfg, `${VAULT_RAW_DIR}/${tab.chatRawFilename!}`, tab.chatRawContent!, "text/markdown");
+  const discardPending = await confirmDiscardPendingRun();
+  if (discardPending === null) return;
+  saveBtn.disabled = true;
+  const request: ReapRequest = { type: "reap:start", byWindow: getSelectedTabsByWindow(), discardPending };
+  try {
+    const res = (await chrome.runtime.sendMessage(request)) as ReapResponse | undefined;
+    if (!res?.ok) {
+      showStatus(res?.error ?? "保存を開始できませんでした", "error");
+      updateCopyButton();
+    }
+  } catch (e) {
+    showStatus(`保存エラー: ${(e as Error).message}`, "error");
+    updateCopyButton();
   }
 }
 
-const DAY_INDEX_PATH = "library/day-index.md";
-
-function buildDayIndexEntry(
-  byWindow: { windowIndex: number; windowLabel: string; tabs: TabInfo[] }[],
-  date: Date,
-  failedSummaryTabIds: Set<number> = new Set<number>()
-): string {
-  const ymd =
-    date.getFullYear() +
-    "-" +
-    String(date.getMonth() + 1).padStart(2, "0") +
-    "-" +
-    String(date.getDate()).padStart(2, "0");
-  const lines: string[] = [`[[${ymd}]]`];
-  byWindow.forEach((w) => {
-    lines.push(`- ${w.windowLabel}`);
-    w.tabs.forEach((t) => {
-      const useUrl = failedSummaryTabIds.has(t.id);
-      const link = !useUrl && t.summaryFilename
-        ? `[[${t.summaryFilename.replace(/\.md$/i, "")}]]`
-        : `[${t.title || "（無題）"}](${t.url})`;
-      lines.push(`\t- ${link}`);
-    });
-  });
-  return lines.join("\n") + "\n";
+/** 中断した保存が残っていれば破棄してよいか確かめる。破棄するなら true、残っていなければ false、やめたら null */
+async function confirmDiscardPendingRun(): Promise<boolean | null> {
+  const pending = await countPendingJobs();
+  if (pending === 0) return false;
+  const ok = confirm(`中断した保存（${pending}タブ）が残っています。破棄して新しく保存しますか？（続きを実行するには「中断した保存を再開」）`);
+  return ok ? true : null;
 }
 
-async function appendDayIndex(
-  cfg: ObsidianRestConfig,
-  byWindow: { windowIndex: number; windowLabel: string; tabs: TabInfo[] }[],
-  date: Date,
-  failedSummaryTabIds: Set<number> = new Set<number>()
-) {
-  const entry = buildDayIndexEntry(byWindow, date, failedSummaryTabIds);
-  await appendVaultFile(cfg, DAY_INDEX_PATH, "\n" + entry);
-}
-
-async function saveSelectedTabs() {
-  if (selectedTabs.size === 0) {
-    showStatus("タブを選択してください", "error");
-    return;
+/** アクティブタブの選択範囲を引用ノートとして保存（タブ一覧の選択とは無関係） */
+async function saveSelectionQuote() {
+  const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  try {
+    if (!activeTab) throw new Error("アクティブなタブがありません");
+    const discardPending = await confirmDiscardPendingRun();
+    if (discardPending === null) return;
+    const request: ReapRequest = {
+      type: "reap:start",
+      byWindow: await buildQuickReapSelection("quote", activeTab),
+      discardPending,
+    };
+    const res = (await chrome.runtime.sendMessage(request)) as ReapResponse | undefined;
+    if (!res?.ok) showStatus(res?.error ?? "引用を保存できませんでした", "error");
+  } catch (e) {
+    showStatus(`引用保存エラー: ${(e as Error).message}`, "error");
   }
+}
 
-  const restCfg = await loadRestConfig();
-  if (!restCfg) {
-    showStatus("Obsidian REST API Key が未設定です（設定画面で入力）", "error");
+/** background の進捗を表示に反映。終了時は distill 失敗タブを赤表示し、既存ファイルとの衝突をタブに出す */
+function applyRunStatus(status: RunStatus) {
+  showStatus(status.message, status.type);
+  if (status.running) {
+    saveBtn.disabled = true;
+    resumeBtn.hidden = true;
     return;
   }
-  showStatus("Obsidian 接続確認中...", "info");
-  const alive = await healthCheck(restCfg);
-  if (!alive) {
-    showStatus("Obsidian に接続できません（REST API プラグインが起動しているか確認）", "error");
-    return;
+  updateCopyButton();
+  refreshResumeButton();
+  refreshUndoButton();
+  refreshOutboxButtons();
+  if (status.closedTabIds.length > 0) {
+    const closed = new Set(status.closedTabIds);
+    for (const w of allWindows) w.tabs = w.tabs.filter((t) => !closed.has(t.id));
+    allWindows = allWindows.filter((w) => w.tabs.length > 0);
+    closed.forEach((id) => selectedTabs.delete(id));
+    renderTabList();
+    updateCopyButton();
   }
-
-  const o = await chrome.storage.local.get([
-    STORAGE_KEYS.apiKeyGemini,
-    STORAGE_KEYS.apiKeyOpenAI,
-    STORAGE_KEYS.apiKeyClaude,
-  ]);
-  const settings: APIKeySettings = {
-    geminiApiKey: (o[STORAGE_KEYS.apiKeyGemini] || "").trim() || undefined,
-    openaiApiKey: (o[STORAGE_KEYS.apiKeyOpenAI] || "").trim() || undefined,
-    claudeApiKey: (o[STORAGE_KEYS.apiKeyClaude] || "").trim() || undefined,
-  };
-  let workerModel: { modelId: string; provider: AIProvider } | null = null;
-  let apiKey: string | undefined;
-  try {
-    workerModel = requireModelForRole("worker", settings);
-    apiKey = getApiKeyForProvider(workerModel.provider, settings);
-  } catch {
-    // 使用可能なキーなし
+  if (status.distillFailedTabIds.length === 0 && status.writeConflicts.length === 0) return;
+  const failed = new Set(status.distillFailedTabIds);
+  for (const w of allWindows) {
+    for (const t of w.tabs) {
+      if (failed.has(t.id)) t.distillFailed = true;
+      const conflicts = status.writeConflicts.filter((c) => c.tabId === t.id);
+      if (conflicts.length > 0) t.writeConflicts = conflicts;
+    }
   }
+  renderTabList();
+  // 取り込み終了状態でポップアップは開いたままにする（自動で閉じない）
+}
 
-  const byWindow = getSelectedTabsByWindow();
-  const flatTabs = byWindow.flatMap((w) => w.tabs);
-  const total = flatTabs.length;
+/** ポップアップを開き直したとき、実行中の保存があれば進捗表示を引き継ぐ */
+async function restoreRunStatus() {
+  const status = await loadRunStatus();
+  if (status?.running) applyRunStatus(status);
+  else await Promise.all([refreshResumeButton(), refreshUndoButton(), refreshOutboxButtons()]);
+}
 
-  // 1-0 / 2-0: 本文取得の第一パス。Discarded はアクティブ化してから取得。順次・進捗表示。
-  for (let i = 0; i < flatTabs.length; i++) {
-    const tab = flatTabs[i];
-    const discarded = tab.discarded ?? false;
-    if (discarded) {
-      showStatus(`Discarded タブを読み込み中 (${i + 1}/${total})...`, "info");
-      await ensureTabLoadedForBody(tab.id);
-    }
-    showStatus(`本文取得中 (${i + 1}/${total})...`, "info");
-    const uid = uid8();
-    const base = getBaseForTab(tab);
-    tab.uid8 = uid;
-    tab.baseForFilename = base;
-    const { bodyText, links } = await fetchTabBodyAndLinks(
-      tab.id,
-      tab.url,
-      false
-    );
-    tab.headings = await fetchTabHeadings(tab.id, tab.url, false);
-    const fromText = bodyText ? extractUrlsFromText(bodyText) : [];
-    const hrefs = new Set(links.map(hrefFromObsidianLink).filter((h): h is string => h != null));
-    const fromTextLinks = fromText.filter((u) => !hrefs.has(u)).map((u) => `[${u}](${u})`);
-    tab.extractedUrls = [...links, ...fromTextLinks].slice(0, 30);
-    if (bodyText != null && bodyText.length > 0) {
-      const rawPrefix = tab.chatService ? "c-" : detectSourceType(tab.url ?? "") === "x" ? "p-x-" : "p-";
-      const shouldStoreRaw = !!tab.chatService || bodyText.length >= RAW_CONTENT_MIN_CHARS;
-      if (shouldStoreRaw) {
-        tab.rawFilename = `${rawPrefix}${base}_${uid}.txt`;
-        tab.rawContent = bodyText;
-        tab.rawContentPathForSummary = `${RAW_CONTENT_PATH_PREFIX}/${rawPrefix}${base}_${uid}.txt`;
-      } else {
-        tab.rawContentPathForSummary = "（未設定）";
-      }
-    } else {
-      tab.rawContentPathForSummary = "（未設定）";
-    }
+/** 保存後に閉じたタブが取り消し期限内なら「元に戻す」を出す */
+async function refreshUndoButton() {
+  const count = await countUndoableTabs();
+  undoBtn.hidden = count === 0;
+  undoBtn.textContent = `閉じたタブを元に戻す（${count}タブ）`;
+}
 
-    const winForTab = byWindow.find((w) => w.tabs.some((t) => t.id === tab.id));
-    if (winForTab?.captureImages) {
-      showStatus(`画像URL取得中 (${i + 1}/${total})...`, "info");
-      tab.pageImageUrls = await fetchTabImages(tab.id, tab.url, false);
-    }
+async function requestUndo() {
+  undoBtn.hidden = true;
+  const request: ReapRequest = { type: "reap:undo" };
+  try {
+    const res = (await chrome.runtime.sendMessage(request)) as ReapResponse | undefined;
+    if (!res?.ok) showStatus(res?.error ?? "元に戻せませんでした", "error");
+  } catch (e) {
+    showStatus(`元に戻すエラー: ${(e as Error).message}`, "error");
   }
+}
 
-  const tabWindowLabel = new Map<number, string>();
-  byWindow.forEach((w) => w.tabs.forEach((t) => tabWindowLabel.set(t.id, w.windowLabel)));
+/** 保存先に送れていない書き込みがあれば件数と再送・破棄ボタンを出す */
+async function refreshOutboxButtons() {
+  const count = await countOutbox().catch(() => 0);
+  outboxRetryBtn.hidden = count === 0;
+  outboxDiscardBtn.hidden = count === 0;
+  outboxRetryBtn.textContent = `送信待ちを再送（${count}件）`;
+}
 
-  const distillFailedTabIds = new Set<number>();
-  if (workerModel && apiKey) {
-    for (let i = 0; i < flatTabs.length; i++) {
-      const tab = flatTabs[i];
-      const wLabel = tabWindowLabel.get(tab.id) ?? "";
-      if (tab.chatService) {
-        showStatus(`チャット抽出中 (${i + 1}/${total})...`, "info");
-        const chat = await fetchChatContent(tab.id, tab.url, false);
-        const uid = tab.uid8 ?? uid8();
-        const createdAt = new Date().toISOString();
-        tab.chatRawFilename = `chat-${tab.chatService}_${uid}.md`;
-        tab.chatRawContent = buildChatRawContentMd(chat.raw_text, tab.url, tab.chatService, createdAt);
-        const rawChatPath = `${RAW_CONTENT_PATH_PREFIX}/${tab.chatRawFilename}`;
-        const captureCheck = isChatCaptureFailed(chat);
-        if (captureCheck.failed) {
-          showStatus(
-            `chat捕獲失敗 (${i + 1}/${total}): ${captureCheck.reasons.join(", ")}。distill停止`,
-            "error"
-          );
-          const summaryFilename = `c-capture_failed_${uid}.md`;
-          tab.summaryFilename = summaryFilename;
-          tab.summaryContent = buildChatCaptureFailedSummaryMd({
-            tab,
-            windowLabel: wLabel,
-            rawChatPath,
-            chat,
-            reasons: captureCheck.reasons,
-          });
-          tab.summaryVaultDir = VAULT_REFERENCE_DIR;
-          continue;
-        }
-        showStatus(`distill中 (${i + 1}/${total})...`, "info");
-        const out = await runChatDistillForTab(
-          tab,
-          apiKey,
-          workerModel.provider,
-          workerModel.modelId,
-          wLabel,
-          chat,
-          rawChatPath
-        );
-        if (out === null) {
-          distillFailedTabIds.add(tab.id);
-          tab.distillFailed = true;
-          continue;
-        }
-        tab.summaryFilename = out.summaryFilename;
-        tab.summaryContent = out.summaryContent;
-        tab.summaryVaultDir = out.outputDir;
-        continue;
-      }
-      const maxAttempts = 3;
-      let succeeded = false;
-      for (let attempt = 0; attempt < maxAttempts && !succeeded; attempt++) {
-        showStatus(
-          attempt === 0 ? `要約中 (${i + 1}/${total})...` : `要約リトライ (${i + 1}/${total})...`,
-          "info"
-        );
-        try {
-          const out = await runUrlSummaryForTab(
-            tab,
-            apiKey,
-            workerModel!.provider,
-            workerModel!.modelId,
-            wLabel,
-          );
-          tab.summaryFilename = out.summaryFilename;
-          tab.summaryContent = out.summaryContent;
-          tab.summaryVaultDir = out.outputDir;
-          succeeded = true;
-        } catch (err) {
-          console.error(`URL要約エラー (attempt ${attempt + 1}/${maxAttempts}):`, tab.url, err);
-          if (attempt === maxAttempts - 1) {
-            const fallbackPrefix = detectSourceType(tab.url ?? "") === "x" ? "p-x-" : "p-";
-            tab.summaryFilename = `${fallbackPrefix}untitled_${tab.uid8 ?? uid8()}.md`;
-            tab.summaryContent = buildPlaceholderSummaryMd(tab, tab.rawContentPathForSummary, wLabel);
-            tab.summaryVaultDir = VAULT_CLIP_DIR;
-          }
-        }
-      }
-    }
-  } else {
-    addPlaceholderFilenames(byWindow);
+async function retryOutbox() {
+  outboxRetryBtn.disabled = true;
+  const request: ReapRequest = { type: "outbox:flush" };
+  try {
+    // ローカルフォルダの書き込み権限はブラウザの再起動で切れるので、ボタン操作のうちに取り直す
+    if ((await loadSinkKind()) === "fs") await sinkDirectoryStatus(true);
+    const res = (await chrome.runtime.sendMessage(request)) as ReapResponse | undefined;
+    if (res?.ok) showStatus("送信待ちの書き込みを保存しました", "success");
+    else showStatus(`再送できませんでした: ${res?.error ?? "不明なエラー"}`, "error");
+  } catch (e) {
+    showStatus(`再送エラー: ${(e as Error).message}`, "error");
+  } finally {
+    outboxRetryBtn.disabled = false;
+    await refreshOutboxButtons();
   }
+}
 
-  for (let i = 0; i < flatTabs.length; i++) {
-    const tab = flatTabs[i];
-    if (!tab.pageImageUrls?.length) continue;
-    showStatus(`画像ダウンロード中 (${i + 1}/${total})...`, "info");
-    const tabUid = tab.uid8 ?? uid8();
-    const images: { filename: string; alt: string; videoUrl?: string }[] = [];
-    for (let j = 0; j < tab.pageImageUrls.length; j++) {
-      const img = tab.pageImageUrls[j];
-      const downloaded = await downloadImage(img.src);
-      if (!downloaded) continue;
-      const filename = `img-${tabUid}_${j}.${downloaded.ext}`;
-      try {
-        await putVaultBinary(
-          restCfg,
-          `${VAULT_IMAGE_DIR}/${filename}`,
-          downloaded.data,
-          downloaded.contentType,
-        );
-        images.push({ filename, alt: img.alt, videoUrl: img.videoUrl });
-      } catch (e) {
-        console.error("image save error:", img.src, e);
-      }
-    }
-    tab.capturedImages = images;
-    if (images.length > 0 && tab.summaryContent) {
-      tab.summaryContent = appendImagesSectionToMd(tab.summaryContent, images);
-    }
+async function discardOutboxWrites() {
+  const count = await countOutbox().catch(() => 0);
+  if (!confirm(`送信待ちの書き込み ${count}件を破棄します。保存先には書き込まれません。よろしいですか？`)) return;
+  const request: ReapRequest = { type: "outbox:discard" };
+  try {
+    const res = (await chrome.runtime.sendMessage(request)) as ReapResponse | undefined;
+    if (res?.ok) showStatus(`送信待ちの書き込み ${count}件を破棄しました`, "info");
+    else showStatus(res?.error ?? "破棄できませんでした", "error");
+  } catch (e) {
+    showStatus(`破棄エラー: ${(e as Error).message}`, "error");
   }
+  await refreshOutboxButtons();
+}
 
-  showStatus("Obsidian に保存中...", "info");
+/** 中断した実行（day-index 未追記のジョブ）が残っていれば再開ボタンを出す */
+async function refreshResumeButton() {
+  const pending = await countPendingJobs();
+  resumeBtn.hidden = pending === 0;
+  resumeBtn.textContent = `中断した保存を再開（${pending}タブ）`;
+}
+
+async function resumePendingRun() {
+  resumeBtn.hidden = true;
+  saveBtn.disabled = true;
+  const request: ReapRequest = { type: "reap:resume" };
   try {
-    await saveRawToVault(restCfg, byWindow);
-    const failedSummaryTabIds = await saveTabSummariesToVault(restCfg, byWindow);
-    const allFailedIds = new Set([...failedSummaryTabIds, ...distillFailedTabIds]);
-    await appendDayIndex(restCfg, byWindow, new Date(), allFailedIds);
-    const failCount = distillFailedTabIds.size;
-    if (failCount > 0) {
-      showStatus(`保存完了（distill失敗 ${failCount}件: URLのみ記録）`, "error");
-    } else {
-      showStatus("library/clip・library/reference に保存しました", "success");
+    const res = (await chrome.runtime.sendMessage(request)) as ReapResponse | undefined;
+    if (!res?.ok) {
+      showStatus(res?.error ?? "再開できませんでした", "error");
+      updateCopyButton();
+      await refreshResumeButton();
     }
-    renderTabList();
-    // 取り込み終了状態でポップアップは開いたままにする（自動で閉じない）
   } catch (e) {
-    showStatus(`保存エラー: ${(e as Error).message}`, "error");
-    console.error(e);
+    showStatus(`再開エラー: ${(e as Error).message}`, "error");
+    updateCopyButton();
   }
 }
 
-function showStatus(message: string, type: "info" | "success" | "error") {
+function showStatus(message: string, type: StatusType) {
   statusEl.textContent = message;
   statusEl.className = `status show ${type}`;
   // success は消さず表示を残す（取り込み終了の確認のため）
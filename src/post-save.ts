@@ -0,0 +1,126 @@
+/**
+ * 保存後のタブ処理（閉じる / 破棄 / "reaped" グループへ移動）と、閉じたタブの取り消し。
+ * 取り消しは chrome.sessions の最近閉じた項目から復元し、見つからない分は URL で開き直す。
+ */
+
+export const STORAGE_KEY_POST_SAVE_ACTION = "tabReaper_postSaveAction";
+const STORAGE_KEY_REAP_UNDO = "tabReaper_reapUndo";
+
+export type PostSaveAction = "none" | "close" | "discard" | "group";
+
+const REAPED_GROUP_TITLE = "reaped";
+/** 閉じたタブを取り消せる時間 */
+const UNDO_WINDOW_MS = 5 * 60 * 1000;
+
+interface ReapUndo {
+  expiresAt: number;
+  tabs: Array<{ url: string; windowId: number; index: number }>;
+}
+
+export async function loadPostSaveAction(): Promise<PostSaveAction> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_POST_SAVE_ACTION);
+  const v = o[STORAGE_KEY_POST_SAVE_ACTION];
+  return v === "close" || v === "discard" || v === "group" ? v : "none";
+}
+
+/** 期限内の取り消し情報があれば閉じたタブ数を返す（popup のボタン表示用） */
+export async function countUndoableTabs(): Promise<number> {
+  const undo = await loadUndo();
+  return undo?.tabs.length ?? 0;
+}
+
+async function loadUndo(): Promise<ReapUndo | null> {
+  const o = await chrome.storage.session.get(STORAGE_KEY_REAP_UNDO);
+  const undo = o[STORAGE_KEY_REAP_UNDO] as ReapUndo | undefined;
+  if (!undo || undo.expiresAt < Date.now()) return null;
+  return undo;
+}
+
+/**
+ * 保存に成功したタブに保存後アクションを適用し、処理したタブの ID を返す。
+ * 実行中に閉じられた・別のページになった（再開時に ID が使い回された）タブには触らない。
+ */
+export async function applyPostSaveAction(
+  action: PostSaveAction,
+  saved: Array<{ id: number; url: string }>
+): Promise<number[]> {
+  if (action === "none" || saved.length === 0) return [];
+  const tabs: chrome.tabs.Tab[] = [];
+  for (const { id, url } of saved) {
+    try {
+      const tab = await chrome.tabs.get(id);
+      if (tab.url === url || tab.pendingUrl === url) tabs.push(tab);
+    } catch {
+      // 実行中に閉じられたタブ
+    }
+  }
+  if (action === "close") {
+    const undo: ReapUndo = {
+      expiresAt: Date.now() + UNDO_WINDOW_MS,
+      tabs: tabs.map((t) => ({ url: t.url || "", windowId: t.windowId, index: t.index })),
+    };
+    await chrome.storage.session.set({ [STORAGE_KEY_REAP_UNDO]: undo });
+    await chrome.tabs.remove(tabs.map((t) => t.id!));
+    return tabs.map((t) => t.id!);
+  }
+  if (action === "discard") {
+    const discarded: number[] = [];
+    for (const t of tabs) {
+      try {
+        await chrome.tabs.discard(t.id!);
+        discarded.push(t.id!);
+      } catch {
+        // アクティブタブは破棄できない
+      }
+    }
+    return discarded;
+  }
+  const byWindow = new Map<number, number[]>();
+  for (const t of tabs) byWindow.set(t.windowId, [...(byWindow.get(t.windowId) ?? []), t.id!]);
+  for (const [windowId, ids] of byWindow) {
+    const [existing] = await chrome.tabGroups.query({ windowId, title: REAPED_GROUP_TITLE });
+    const groupId = await chrome.tabs.group(
+      existing ? { tabIds: ids, groupId: existing.id } : { tabIds: ids, createProperties: { windowId } }
+    );
+    await chrome.tabGroups.update(groupId, { title: REAPED_GROUP_TITLE, color: "grey", collapsed: true });
+  }
+  return tabs.map((t) => t.id!);
+}
+
+/** 直前に閉じたタブを復元し、復元したタブ数を返す */
+export async function undoClosedTabs(): Promise<number> {
+  const undo = await loadUndo();
+  if (!undo) return 0;
+  await chrome.storage.session.remove(STORAGE_KEY_REAP_UNDO);
+  const remaining = undo.tabs.map((t) => t.url);
+  const take = (url: string | undefined): boolean => {
+    const i = url ? remaining.indexOf(url) : -1;
+    if (i === -1) return false;
+    remaining.splice(i, 1);
+    return true;
+  };
+  let restored = 0;
+  const sessions = await chrome.sessions.getRecentlyClosed({ maxResults: chrome.sessions.MAX_SESSION_RESULTS });
+  for (const s of sessions) {
+    if (remaining.length === 0) break;
+    if (s.tab?.sessionId && take(s.tab.url)) {
+      await chrome.sessions.restore(s.tab.sessionId);
+      restored++;
+    } else if (s.window?.sessionId && (s.window.tabs ?? []).some((t) => remaining.includes(t.url || ""))) {
+      // ウィンドウ内の全タブを閉じた場合はウィンドウごと閉じられている
+      const count = (s.window.tabs ?? []).filter((t) => take(t.url)).length;
+      await chrome.sessions.restore(s.window.sessionId);
+      restored += count;
+    }
+  }
+  for (const url of remaining) {
+    const original = undo.tabs.find((t) => t.url === url);
+    try {
+      await chrome.tabs.create({ url, windowId: original?.windowId, active: false });
+    } catch {
+      await chrome.tabs.create({ url, active: false });
+    }
+    restored++;
+  }
+  return restored;
+}
@@ -0,0 +1,103 @@
+/**
+ * ポップアップを開かずに保存する入口（chrome.commands のショートカットと右クリックメニュー）。
+ * 対象タブから SelectedWindow を組み立てて reap パイプラインに渡し、結果は通知で返す。
+ */
+
+import { lookupExistingClips, type ExistingClip } from "./clip-index";
+import { loadStorageSink } from "./storage-sink";
+import { fetchWindowGroups, getSelectedTextInTab } from "./tab-capture";
+import { contentOnlyTitle, toTabInfo, type SelectedWindow, type TabInfo } from "./tab-info";
+
+export type QuickReapKind = "tab" | "window" | "selection" | "quote";
+
+/** manifest.json の commands と対応 */
+export const COMMAND_KINDS: Record<string, QuickReapKind> = {
+  "reap-current-tab": "tab",
+  "reap-current-window": "window",
+  "reap-selection": "selection",
+  "quote-selection": "quote",
+};
+
+export const QUICK_REAP_MENU_ITEMS: Array<{
+  id: string;
+  kind: QuickReapKind;
+  title: string;
+  contexts: chrome.contextMenus.ContextType[];
+}> = [
+  { id: "tabReaper-reap-tab", kind: "tab", title: "このタブを保存", contexts: ["page"] },
+  { id: "tabReaper-reap-window", kind: "window", title: "このウィンドウを保存", contexts: ["page"] },
+  { id: "tabReaper-reap-selection", kind: "selection", title: "選択テキストを要約して保存", contexts: ["selection"] },
+  { id: "tabReaper-quote-selection", kind: "quote", title: "選択テキストを引用として保存", contexts: ["selection"] },
+];
+
+/** 通知用アイコン（manifest に icons が無くても通知を出せるよう埋め込み） */
+const NOTIFICATION_ICON =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAASElEQVR42u3XsQ0AIAwDwQzFMkycsUKHBEoLdvGF67/WMXLGtXq8o/cz3EJU8Y2wAJRyAAAAAAAAAAAAAAAAsADwjCzOqeyeL3E8LKiKQtlOAAAAAElFTkSuQmCC";
+
+export function notify(title: string, message: string): void {
+  chrome.notifications.create({ type: "basic", iconUrl: NOTIFICATION_ICON, title, message });
+}
+
+function windowSelection(windowLabel: string, tabs: TabInfo[], groups: SelectedWindow["groups"]): SelectedWindow[] {
+  return [
+    {
+      windowIndex: 1,
+      windowLabel,
+      tabs,
+      captureImages: false,
+      groups: groups.filter((g) => tabs.some((t) => t.groupId === g.id)),
+    },
+  ];
+}
+
+/** 保存済みのチャットは新しいターンの追記にする（ポップアップの既定と同じ） */
+function markChatAppend(infos: TabInfo[], existing: Map<string, ExistingClip>): TabInfo[] {
+  return infos.map((t) => {
+    const hit = t.chatService ? existing.get(t.url) : undefined;
+    return hit ? { ...t, existingClipPath: hit.path, duplicateAction: "append" as const } : t;
+  });
+}
+
+async function lookupClips(urls: string[]): Promise<Map<string, ExistingClip>> {
+  const sink = await loadStorageSink();
+  const reachable = sink != null && (await sink.healthCheck());
+  return lookupExistingClips(urls, reachable ? sink : null);
+}
+
+/**
+ * 対象タブ（window のときはそのウィンドウ全体）から保存対象を組み立てる。
+ * window では保存済み URL のタブを除く（ポップアップの既定「スキップ」と同じ扱い）。保存済みのチャットは追記にする。
+ */
+export async function buildQuickReapSelection(
+  kind: QuickReapKind,
+  tab: chrome.tabs.Tab,
+  selectionText?: string
+): Promise<SelectedWindow[]> {
+  if (tab.id == null || !tab.url?.startsWith("http")) throw new Error("このページは保存できません");
+  const groups = await fetchWindowGroups(tab.windowId);
+  if (kind === "tab") {
+    const info = toTabInfo(tab);
+    const existing = info.chatService ? await lookupClips([info.url]) : new Map<string, ExistingClip>();
+    return windowSelection(contentOnlyTitle(tab.title ?? null) || "ウィンドウ 1", markChatAppend([info], existing), groups);
+  }
+  if (kind === "selection" || kind === "quote") {
+    const text = (await getSelectedTextInTab(tab.id, tab.url, !!tab.discarded)) ?? selectionText?.trim();
+    if (!text) throw new Error("選択テキストがありません");
+    // 選択テキストは chat でも通常の要約（または引用ノート）に回す
+    const info: TabInfo = {
+      ...toTabInfo(tab),
+      chatService: undefined,
+      selectionText: text,
+      quoteClip: kind === "quote" || undefined,
+    };
+    return windowSelection(contentOnlyTitle(tab.title ?? null) || "ウィンドウ 1", [info], groups);
+  }
+  const tabs = (await chrome.tabs.query({ windowId: tab.windowId })).filter((t) => t.url?.startsWith("http"));
+  const existing = await lookupClips(tabs.map((t) => t.url || ""));
+  const infos = markChatAppend(
+    tabs.map((t) => toTabInfo(t)).filter((t) => !existing.has(t.url) || t.chatService),
+    existing
+  );
+  if (infos.length === 0) throw new Error("保存するタブがありません（すべて保存済み）");
+  return windowSelection(contentOnlyTitle(tab.title ?? null) || "ウィンドウ 1", infos, groups);
+}
@@ -0,0 +1,115 @@
+/**
+ * 選択範囲の引用ノート（q-*.md）。選択テキストを blockquote で残し、
+ * Text Fragment（#:~:text=）付きリンクで元ページの該当箇所に戻れるようにする。要約はせず、設定で短いコメントだけ付ける。
+ */
+
+import { type AIProvider } from "ai-roles";
+import { callAI } from "call-ai";
+import { sourceTypeOfTab, type TabInfo } from "./tab-info";
+
+export const STORAGE_KEY_QUOTE_COMMENTARY = "tabReaper_quoteCommentary";
+
+/** 1語句でそのまま text= に入れる上限。超えたら textStart,textEnd の範囲指定にする */
+const FRAGMENT_EXACT_MAX_CHARS = 80;
+const FRAGMENT_EDGE_CHARS = 30;
+
+const QUOTE_COMMENTARY_PROMPT = `以下はWebページから引用した一節です。この一節の要点と、ページの文脈で持つ意味を日本語で2〜3文にまとめてください。前置きや見出しは不要。`;
+
+export async function loadQuoteCommentaryEnabled(): Promise<boolean> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_QUOTE_COMMENTARY);
+  return o[STORAGE_KEY_QUOTE_COMMENTARY] === true;
+}
+
+/** Text Fragment の語句エンコード。区切りに使う "-" と "," もエスケープする */
+function encodeFragmentTerm(s: string): string {
+  return encodeURIComponent(s).replace(/-/g, "%2D");
+}
+
+/** 語の途中で切らないよう、空白があればそこまで戻す（日本語など空白が無ければ文字数で切る） */
+function cutAtWord(s: string, max: number, fromEnd: boolean): string {
+  if (s.length <= max) return s;
+  if (fromEnd) {
+    const tail = s.slice(-max);
+    const sp = tail.indexOf(" ");
+    return sp > 0 && sp < max / 2 ? tail.slice(sp + 1) : tail;
+  }
+  const head = s.slice(0, max);
+  const sp = head.lastIndexOf(" ");
+  return sp > max / 2 ? head.slice(0, sp) : head;
+}
+
+/**
+ * 選択テキストへの Text Fragment 付き URL。複数ブロックにまたがる選択や長い選択は
+ * 先頭ブロックの冒頭と末尾ブロックの末尾で範囲指定する（語句はブロックをまたげないため）。
+ */
+export function buildTextFragmentUrl(url: string, text: string): string {
+  const base = url.replace(/#.*$/, "");
+  const blocks = text
+    .split(/\n+/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  if (blocks.length === 0) return base;
+  const first = blocks[0];
+  const last = blocks[blocks.length - 1];
+  if (blocks.length === 1 && first.length <= FRAGMENT_EXACT_MAX_CHARS) {
+    return `${base}#:~:text=${encodeFragmentTerm(first)}`;
+  }
+  const start = cutAtWord(first, FRAGMENT_EDGE_CHARS, false);
+  const end = cutAtWord(last, FRAGMENT_EDGE_CHARS, true);
+  return `${base}#:~:text=${encodeFragmentTerm(start)},${encodeFragmentTerm(end)}`;
+}
+
+/** 作業AIで引用への短いコメントを作る。失敗時は null（引用ノートはコメント無しで保存） */
+export async function generateQuoteCommentary(
+  tab: TabInfo,
+  quote: string,
+  workerModel: { provider: AIProvider; modelId: string; apiKey: string }
+): Promise<string | null> {
+  try {
+    const res = await callAI(
+      workerModel.provider,
+      [{ role: "user", content: `${QUOTE_COMMENTARY_PROMPT}\n\nページ: ${tab.title || tab.url}\n\n${quote}` }],
+      {
+        apiKey: workerModel.apiKey,
+        model: workerModel.modelId,
+        timeout: 30000,
+        maxTokens: 400,
+        temperature: 0.3,
+      }
+    );
+    return (res.text || "").trim() || null;
+  } catch (e) {
+    console.error("quote commentary error:", tab.url, e);
+    return null;
+  }
+}
+
+export function buildQuoteNoteMd(opts: {
+  tab: TabInfo;
+  quote: string;
+  windowLabel: string;
+  date: string;
+  commentary: string | null;
+}): string {
+  const { tab, quote } = opts;
+  const title = tab.title || "（無題）";
+  const fm = [
+    "---",
+    `source_type: ${sourceTypeOfTab(tab)}`,
+    `pipeline: quote`,
+    `raw_policy: url_only`,
+    `date: ${opts.date}`,
+    `window: ${opts.windowLabel}`,
+    `url: ${tab.url}`,
+    `title: "${title.replace(/"/g, '\\"')}"`,
+    `linked_from: tabReaper`,
+    "---",
+  ].join("\n");
+  const blockquote = quote
+    .split("\n")
+    .map((l) => (l.trim() ? `> ${l.trimEnd()}` : ">"))
+    .join("\n");
+  const source = `— [${title.replace(/[[\]]/g, "")}](${buildTextFragmentUrl(tab.url, quote)})`;
+  const commentary = opts.commentary ? `\n\n## コメント\n${opts.commentary}` : "";
+  return `${fm}\n\n${blockquote}\n\n${source}${commentary}\n`;
+}
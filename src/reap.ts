@@ -0,0 +1,1414 @@
+/**
+ * 保存パイプライン本体。本文取得 → 要約 / chat distill → 画像 → 保存先（Obsidian 等）へ書き込み → day-index 追記。
+ * background の service worker から呼ばれ、進捗は report コールバックで popup に流す。
+ */
+
+import {
+  fetchViaJina,
+  generateSummaryJson,
+  parseSummaryJson,
+  getShortTitleForFilename,
+  generateShortTitle,
+  normalizeUrlForDedup,
+} from "@pipelines/url-summary";
+import { type APIKeySettings, type AIProvider } from "ai-roles";
+import { callAI } from "call-ai";
+import { logger } from "@pipelines/vault-logger";
+import { type ChatMessage } from "@pipelines/normalizer";
+import { process as runTaskReaperProcess } from "@pipelines/task-reaper";
+import { runDistill } from "@pipelines/distill-filter";
+import { SINK_LABELS, loadStorageSink, type StorageSink } from "./storage-sink";
+import { appendVaultFileOrQueue, countOutbox, flushOutbox, putVaultFileOrQueue } from "./outbox";
+import { loadWorkerModel } from "./llm-settings";
+import type { StatusReporter, TabWriteConflict } from "./run-status";
+import type { JobTracker } from "./job-store";
+import { recordClips } from "./clip-index";
+import { fetchPdfText } from "./offscreen-client";
+import {
+  TRANSCRIPT_PROMPT_MAX_CHARS,
+  buildTranscriptText,
+  buildYoutubeSummaryPrompt,
+  buildYoutubeTopics,
+  parseYoutubeSummaryJson,
+} from "./youtube";
+import { buildQuoteNoteMd, generateQuoteCommentary, loadQuoteCommentaryEnabled } from "./quote-clip";
+import { buildChatUpdateSection, findNewTurns, loadStoredChat } from "./chat-update";
+import { loadImageSettings, saveImageToVault } from "./images";
+import { loadArchiveMode, saveTabArchive, withArchiveFrontmatter } from "./archive";
+import { loadWriteMode, type WriteMode } from "./write-mode";
+import { buildTwitterThreadMd, twitterThreadLinks, twitterThreadMeta, withTwitterFrontmatter } from "./twitter";
+import {
+  sourceTypeOfTab,
+  isTwitterUrl,
+  type SourceType,
+  type TabInfo,
+  type SelectedWindow,
+  type WriteConflict,
+} from "./tab-info";
+import {
+  fetchTabImages,
+  ensureTabLoadedForBody,
+  isSameTab,
+  fetchTabBodyAndLinks,
+  fetchTabHeadings,
+  fetchChatContent,
+  fetchTwitterThread,
+  fetchYoutubeTranscript,
+} from "./tab-capture";
+
+const VAULT_CLIP_DIR = "library/clip";
+const VAULT_REFERENCE_DIR = "library/reference";
+const VAULT_RAW_DIR = "memory/raw_content";
+const RAW_CONTENT_PATH_PREFIX = "memory/raw_content";
+const VAULT_IMAGE_DIR = "memory/raw_content/img";
+const SHORT_TITLE_MAX_LEN = 60;
+const RAW_CONTENT_MIN_CHARS = 3000;
+
+/** 出典リンク（Perplexity の引用元）を「## 出典」として末尾に追記 */
+function appendSourcesSection(md: string, sources: string[]): string {
+  if (sources.length === 0) return md;
+  return `${md.trimEnd()}\n\n## 出典\n${sources.map((s) => `- ${s}`).join("\n")}\n`;
+}
+
+/** 要約mdの末尾に画像・動画サムネセクションを追記 */
+function appendImagesSectionToMd(
+  md: string,
+  images: { filename: string; alt: string; videoUrl?: string }[],
+): string {
+  if (images.length === 0) return md;
+  const lines: string[] = [];
+  for (const img of images) {
+    lines.push(`![[${img.filename}]]`);
+    if (img.videoUrl) {
+      lines.push(`[動画リンク](${img.videoUrl})`);
+    }
+  }
+  return `${md.trimEnd()}\n\n## 画像\n${lines.join("\n")}\n`;
+}
+
+function isChatCaptureFailed(chat: {
+  service: string;
+  messages: ChatMessage[];
+  raw_text: string;
+}): { failed: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+  const rawChars = (chat.raw_text || "").trim().length;
+  if (rawChars < 80) reasons.push("short_raw_text");
+  if ((chat.messages?.length ?? 0) === 0) reasons.push("zero_turns");
+  return { failed: reasons.length > 0, reasons };
+}
+
+function buildChatCaptureFailedSummaryMd(opts: {
+  tab: TabInfo;
+  windowLabel: string;
+  rawChatPath: string;
+  chat: { service: string; messages: ChatMessage[]; raw_text: string; domTurns: number };
+  reasons: string[];
+}): string {
+  const rawPath = opts.tab.rawContentPathForSummary ?? "（未設定）";
+  const hasRaw = rawPath !== "（未設定）";
+  const extraction = {
+    domTurns: opts.chat.domTurns,
+    turns: opts.chat.messages.length,
+    rawChars: (opts.chat.raw_text || "").length,
+    partial: true,
+    warnings: [...opts.reasons, "capture_failed"],
+  };
+  const fm = buildChatReferenceFrontmatter({
+    url: opts.tab.url,
+    rawContentPath: rawPath,
+    rawChatPath: opts.rawChatPath,
+    windowLabel: opts.windowLabel,
+    hasRaw,
+    service: opts.tab.chatService ?? opts.chat.service ?? "unknown",
+    extraction,
+  });
+  return `${fm}
+
+## 要点
+- chat捕獲に失敗したため、distillを停止しました。
+- raw_chat を確認して再実行してください。
+- 理由: ${opts.reasons.join(", ")}
+
+## 要約
+会話の抽出品質が基準未満（capture_failed）だったため、誤要約を防ぐ目的で distill を実行していません。
+
+## 教訓・示唆
+- Gemini UI 変更や未描画状態で会話本文が取得できないことがある
+- partial 保存だけでは見落としやすいため、明示失敗として扱う
+
+## レイヤー判定
+capture_failed
+
+### tags
+[[distill]] [[chat]] [[capture_failed]]
+
+---
+url: ${opts.tab.url}
+raw_content: ${rawPath}
+raw_chat: ${opts.rawChatPath}
+created_at: ${new Date().toISOString()}
+raw_pagetitle: ${(opts.tab.title || "").trim() || "（無題）"}
+linked_from: tabReaper
+---
+
+## 会話
+${opts.chat.raw_text.slice(0, 20000)}
+`;
+}
+
+function uid8(): string {
+  try {
+    return crypto.randomUUID().replace(/-/g, "").slice(0, 8);
+  } catch {
+    return Date.now().toString(36).slice(-8);
+  }
+}
+
+/** Obsidian リンク文字列 "[...](url)" から href を取得 */
+function hrefFromObsidianLink(obsidianLink: string): string | null {
+  const m = obsidianLink.match(/\]\((https?:\S+)\)$/);
+  return m ? m[1] : null;
+}
+
+/** 本文テキストから http(s) URL を抽出（重複除く・最大20件） */
+function extractUrlsFromText(text: string): string[] {
+  if (!text?.trim()) return [];
+  const re = /https?:\/\/[^\s<>"')\]]+/g;
+  const found = text.match(re) ?? [];
+  const normalized = found.map((u) => u.replace(/[.,;:!?)]+$/, ""));
+  return [...new Set(normalized)].slice(0, 20);
+}
+
+/** 要約 md の「## 要点」リスト末尾に本文中の URL を追記（コードで囲まない） */
+function appendUrlsToPointsSection(md: string, urls: string[]): string {
+  if (urls.length === 0) return md;
+  const pointsHeading = "## 要点\n";
+  const idx = md.indexOf(pointsHeading);
+  if (idx === -1) return md;
+  const afterPoints = idx + pointsHeading.length;
+  const nextSection = md.indexOf("\n\n## ", afterPoints);
+  const insertAt = nextSection !== -1 ? nextSection : md.length;
+  const lines = urls.map((u) => "- " + u).join("\n");
+  return md.slice(0, insertAt) + "\n" + lines + md.slice(insertAt);
+}
+
+function todayDate(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function buildClipFrontmatter(opts: {
+  url: string;
+  sourceType: SourceType;
+  rawContentPath: string;
+  windowLabel: string;
+  hasRaw: boolean;
+}): string {
+  const sourceType = opts.sourceType;
+  const rawPolicy = opts.hasRaw ? "stored" : "url_only";
+  return [
+    "---",
+    `source_type: ${sourceType}`,
+    `pipeline: summary`,
+    `raw_policy: ${rawPolicy}`,
+    `date: ${todayDate()}`,
+    `window: ${opts.windowLabel}`,
+    `url: ${opts.url}`,
+    `raw_content: ${opts.rawContentPath}`,
+    `linked_from: tabReaper`,
+    "---",
+  ].join("\n");
+}
+
+function buildPlaceholderSummaryMd(tab: TabInfo, rawContentPath?: string, windowLabel?: string): string {
+  const rawLine = rawContentPath ?? "（未設定）";
+  const fm = buildClipFrontmatter({
+    url: tab.url,
+    sourceType: sourceTypeOfTab(tab),
+    rawContentPath: rawLine,
+    windowLabel: windowLabel ?? "",
+    hasRaw: rawContentPath != null && rawContentPath !== "（未設定）",
+  });
+  const pointLines =
+    (tab.extractedUrls?.length ?? 0) > 0
+      ? "- （要約は未取得）\n" + tab.extractedUrls!.map((u) => "- " + u).join("\n")
+      : "- （要約は未取得）";
+  const md = withTwitterFrontmatter(
+    `${fm}
+
+## 要点
+${pointLines}
+
+## 要約
+（未取得）
+
+### tags
+（未設定）
+`,
+    tab.twitterThread
+  );
+  return withArchiveFrontmatter(md, tab.archivePath);
+}
+
+/** タブからファイル名用の短いベース名を取得（要約・raw で共通） */
+function getBaseForTab(tab: TabInfo): string {
+  return (tab.title || "untitled")
+    .replace(/[/\\:*?"<>|]/g, "_")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, SHORT_TITLE_MAX_LEN) || "untitled";
+}
+
+/** frontmatter の window: に書くラベル。グループ所属タブは「ウィンドウ / グループ」 */
+function labelForTab(w: SelectedWindow, tab: TabInfo): string {
+  const group = w.groups.find((g) => g.id === tab.groupId);
+  return group ? `${w.windowLabel} / ${group.label}` : w.windowLabel;
+}
+
+function addPlaceholderFilenames(byWindow: SelectedWindow[]) {
+  byWindow.forEach((w) => {
+    w.tabs.forEach((tab) => {
+      const uid = tab.uid8 ?? uid8();
+      const base = tab.baseForFilename ?? getBaseForTab(tab);
+      if (!tab.uid8) tab.uid8 = uid;
+      if (!tab.baseForFilename) tab.baseForFilename = base;
+      const prefix = tab.chatService ? "c-" : sourceTypeOfTab(tab) === "x" ? "p-x-" : "p-";
+      tab.summaryFilename = `${prefix}${base}_${uid}.md`;
+      tab.summaryContent = buildPlaceholderSummaryMd(tab, tab.rawContentPathForSummary, labelForTab(w, tab));
+      tab.summaryVaultDir = tab.chatService ? VAULT_REFERENCE_DIR : VAULT_CLIP_DIR;
+      // ルールで要約しないタブは意図どおりの保存なので、作業AIが無いときだけプレースホルダ扱い
+      tab.placeholderSummary = !tab.skipSummary;
+    });
+  });
+}
+
+/** memory/raw_content 形式の .md 本文を組み立て（ROOM/memory/raw_content を参考） */
+function buildRawContentMd(
+  bodyText: string,
+  url: string,
+  createdAt: string
+): string {
+  const normalized = normalizeUrlForDedup(url);
+  const chars = (bodyText || "").length;
+  const front = [
+    "---",
+    "kind: raw_content",
+    `created_at: ${createdAt}`,
+    `updated_at: ${createdAt}`,
+    "source: jina",
+    `url: "${url.replace(/"/g, '\\"')}"`,
+    `normalized_url: "${normalized.replace(/"/g, '\\"')}"`,
+    `chars: ${chars}`,
+    "---",
+    "",
+  ].join("\n");
+  return front + (bodyText || "");
+}
+
+const CHAT_FOOTER_PATTERNS = [
+  /^ツール\s*$/m,
+  /^Gemini\s.*間違えることがあります。?\s*$/m,
+  /^ChatGPT\s.*間違えることがあります。?\s*$/m,
+  /^Claude\s.*間違えることがあります。?\s*$/m,
+  /^(Grok|Copilot|Le Chat|DeepSeek|Perplexity|NotebookLM)\s.*(間違える|不正確な).*$/m,
+  /^(ChatGPT|Claude|Gemini|Grok|Copilot|Le Chat|DeepSeek|Perplexity|NotebookLM)\b.*\b(can|may) (make mistakes|be inaccurate|display inaccurate).*$/m,
+  /^AI-generated, for reference only\.?\s*$/m,
+  /^内容由\s*AI\s*生成.*$/m,
+];
+
+function stripChatFooter(text: string): string {
+  let t = text;
+  for (const p of CHAT_FOOTER_PATTERNS) t = t.replace(p, "");
+  return t.trimEnd();
+}
+
+function formatChatTurns(messages: ChatMessage[]): string {
+  if (messages.length === 0) return "";
+  return messages.map((m) => `### ${m.speaker}\n${stripChatFooter(m.text)}`).join("\n\n");
+}
+
+type AttributionItem = { idea: string; origin: string; evidence?: string; accepted?: string };
+type Phase1Like = { attribution_ledger: Array<{ idea: string; origin: string; confidence: string; accepted: string }>; anchor: unknown };
+
+function buildAttributionMd(
+  attributions: AttributionItem[] | undefined,
+  phase1: Phase1Like | undefined
+): string {
+  const sections: string[] = [];
+  if (attributions && attributions.length > 0) {
+    sections.push("## 帰属分析");
+    for (const a of attributions) {
+      sections.push(`- idea: ${a.idea} | origin: ${a.origin} | accepted: ${a.accepted ?? ""} | evidence: ${a.evidence ?? ""}`);
+    }
+  }
+  if (phase1?.attribution_ledger && phase1.attribution_ledger.length > 0) {
+    sections.push("");
+    sections.push("## 帰属台帳");
+    for (const a of phase1.attribution_ledger) {
+      sections.push(`- ${a.idea} (${a.origin}, ${a.confidence}) → ${a.accepted}`);
+    }
+  }
+  return sections.join("\n");
+}
+
+function buildChatDistillSource(messages: ChatMessage[], rawText: string): string {
+  if (messages.length === 0) return rawText;
+  const full = messages.map((m) => `${m.speaker}:\n${m.text}`).join("\n\n");
+  const tailCount = Math.min(10, messages.length);
+  const tail = messages
+    .slice(-tailCount)
+    .map((m) => `${m.speaker}:\n${m.text}`)
+    .join("\n\n");
+  return [
+    "【要約方針】会話全体を要約しつつ、後半（最新側）の論点・結論を重視すること。",
+    "",
+    "【全体会話】",
+    full,
+    "",
+    "【後半重点（最新）】",
+    tail,
+  ].join("\n");
+}
+
+function normalizeSentence(s: string): string {
+  return s.replace(/\s+/g, " ").trim();
+}
+
+function splitJapaneseSentences(text: string): string[] {
+  const normalized = normalizeSentence(text);
+  if (!normalized) return [];
+  const parts = normalized
+    .split(/(?<=[。！？!?])/)
+    .map((p) => normalizeSentence(p))
+    .filter(Boolean);
+  return parts.length > 0 ? parts : [normalized];
+}
+
+function pickGlobalThreePoints(summary: string, details: string[]): string[] {
+  const sentences = splitJapaneseSentences(summary);
+  if (sentences.length >= 3) {
+    const mid = Math.floor((sentences.length - 1) / 2);
+    return [sentences[0], sentences[mid], sentences[sentences.length - 1]].map(normalizeSentence);
+  }
+  if (sentences.length === 2) {
+    const fallback = details.find((d) => normalizeSentence(d).length > 0) ?? "";
+    return [sentences[0], sentences[1], fallback || sentences[1]].map(normalizeSentence);
+  }
+  if (sentences.length === 1) {
+    const clauses = sentences[0]
+      .split(/、|，|;|；/g)
+      .map((c) => normalizeSentence(c))
+      .filter(Boolean);
+    if (clauses.length >= 3) {
+      const mid = Math.floor((clauses.length - 1) / 2);
+      return [clauses[0], clauses[mid], clauses[clauses.length - 1]];
+    }
+    const topDetails = details
+      .map((d) => normalizeSentence(d))
+      .filter(Boolean)
+      .slice(0, 2);
+    return [sentences[0], ...topDetails].slice(0, 3);
+  }
+  const ds = details.map((d) => normalizeSentence(d)).filter(Boolean).slice(0, 3);
+  return ds.length > 0 ? ds : ["（distill未取得）"];
+}
+
+function buildTaskReaperApiKeys(provider: AIProvider, apiKey: string): APIKeySettings {
+  const keys: APIKeySettings = {};
+  if (provider === "gemini") keys.geminiApiKey = apiKey;
+  if (provider === "openai") keys.openaiApiKey = apiKey;
+  if (provider === "claude") keys.claudeApiKey = apiKey;
+  return keys;
+}
+
+async function runChatDistillPipeline(input: {
+  text: string;
+  metadata?: { title?: string; [key: string]: unknown };
+  provider: AIProvider;
+  modelId: string;
+  apiKey: string;
+}): Promise<Awaited<ReturnType<typeof runDistill>>> {
+  const chatComplete = async (
+    _role: string,
+    messages: Array<{ role: string; content: string }>,
+    systemPrompt?: string
+  ): Promise<string> => {
+    const res = await callAI(input.provider, messages, {
+      apiKey: input.apiKey,
+      model: input.modelId,
+      timeout: 60000,
+      maxTokens: 3000,
+      temperature: 0.2,
+      ...(systemPrompt ? { system: systemPrompt } : {}),
+    });
+    return (res.text || "").trim();
+  };
+
+  return runDistill(
+    {
+      text: input.text,
+      mode: "chat",
+      metadata: input.metadata,
+    },
+    chatComplete
+  );
+}
+
+type ChatDistillJson = {
+  short_title: string;
+  points: string[];
+  summary: string;
+  lessons: string[];
+  longSummary: string;
+  topic_solutions: string[];
+  tags: string;
+};
+
+function parseChatDistillJson(raw: string): ChatDistillJson {
+  const t = (raw || "").trim();
+  const codeBlock = t.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  const jsonText = (codeBlock ? codeBlock[1] : t).trim();
+  const parsed = JSON.parse(jsonText) as Record<string, unknown>;
+  return {
+    short_title: String(parsed.short_title || ""),
+    points: Array.isArray(parsed.points) ? parsed.points.map(String).filter(Boolean) : [],
+    summary: String(parsed.summary || ""),
+    lessons: Array.isArray(parsed.lessons) ? parsed.lessons.map(String).filter(Boolean) : [],
+    longSummary: String(parsed.longSummary || ""),
+    topic_solutions: Array.isArray(parsed.topic_solutions)
+      ? parsed.topic_solutions.map(String).filter(Boolean)
+      : [],
+    tags: String(parsed.tags || ""),
+  };
+}
+
+function buildChatDistillPrompt(): string {
+  return `あなたは会話ログ要約の実行器です。入力された会話を読み、JSONのみを返してください。
+
+## 出力形式（JSONのみ）
+\`\`\`json
+{
+  "short_title": "ファイル名用の短いタイトル（20文字以内・日本語）",
+  "points": ["要点1", "要点2", "..."],
+  "summary": "要約（3〜6文）",
+  "lessons": ["教訓1", "教訓2", "..."],
+  "longSummary": "詳細要約（十分なボリューム。重要論点を広くカバー）",
+  "topic_solutions": ["話題A → 解決法A", "話題B → 解決法B", "..."],
+  "tags": "タグ1, タグ2, タグ3"
+}
+\`\`\`
+
+## ルール
+- 会話全体を対象にしつつ、後半（最新側）の論点・結論を重視する
+- 捏造禁止。本文にないことは書かない
+- すべて日本語で出力
+- points は **ちょうど3項目**（不足時も3項目に要約して出す）
+- lessons は 3〜8 項目
+- topic_solutions は必要なだけ列挙する（上限なし）。「話題 → 解決法」の構造で書く
+- 長文でも論点を落とさず、抽象化しすぎない
+- 余計な説明文は付けず JSON のみ返す`;
+}
+
+function buildChatRawContentMd(
+  rawText: string,
+  url: string,
+  service: string,
+  createdAt: string,
+  updatedAt: string = createdAt
+): string {
+  const normalized = normalizeUrlForDedup(url);
+  const body = rawText ?? "";
+  const chars = body.length;
+  const front = [
+    "---",
+    "kind: raw_chat",
+    `created_at: ${createdAt}`,
+    `updated_at: ${updatedAt}`,
+    "source: tabReaper",
+    `service: ${service}`,
+    `url: "${url.replace(/"/g, '\\"')}"`,
+    `normalized_url: "${normalized.replace(/"/g, '\\"')}"`,
+    `chars: ${chars}`,
+    "---",
+    "",
+  ].join("\n");
+  return front + body;
+}
+
+function buildChatReferenceFrontmatter(opts: {
+  url: string;
+  rawContentPath: string;
+  rawChatPath: string;
+  windowLabel: string;
+  hasRaw: boolean;
+  service: string;
+  extraction: { domTurns: number; turns: number; rawChars: number; partial: boolean; warnings: string[] };
+}): string {
+  const rawPolicy = opts.hasRaw ? "stored" : "url_only";
+  return [
+    "---",
+    "source_type: chat",
+    "pipeline: distill",
+    `raw_policy: ${rawPolicy}`,
+    `date: ${todayDate()}`,
+    `service: ${opts.service}`,
+    `window: ${opts.windowLabel}`,
+    `url: ${opts.url}`,
+    `raw_content: ${opts.rawContentPath}`,
+    `raw_chat: ${opts.rawChatPath}`,
+    "linked_from: tabReaper",
+    `extraction_dom_turns: ${opts.extraction.domTurns}`,
+    `extraction_turns: ${opts.extraction.turns}`,
+    `extraction_raw_chars: ${opts.extraction.rawChars}`,
+    `extraction_partial: ${opts.extraction.partial}`,
+    `extraction_warnings: ${JSON.stringify(opts.extraction.warnings)}`,
+    "---",
+  ].join("\n");
+}
+
+async function runUrlSummaryForTab(
+  tab: TabInfo,
+  apiKey: string,
+  provider: AIProvider,
+  modelId: string,
+  windowLabel: string,
+): Promise<{ summaryFilename: string; summaryContent: string; outputDir: string }> {
+  const uid = tab.uid8 ?? uid8();
+  const rawPath = tab.rawContentPathForSummary ?? "（未設定）";
+  const hasRaw = rawPath !== "（未設定）";
+  const sourceType = sourceTypeOfTab(tab);
+  const st: "web" | "x" | "youtube" | "paper" | "chat" = sourceType === "blog" ? "web" : sourceType;
+
+  if (st === "youtube" && tab.youtubeTranscript && tab.rawContent) {
+    return runYoutubeSummaryForTab(tab, apiKey, provider, modelId, windowLabel);
+  }
+  // 字幕が取れず本文（選択範囲・ページ本文）も無いときだけプレースホルダ。選択範囲があれば他のページと同じく要約する
+  if (st === "youtube" && !(tab.selectionText || tab.rawContent || "").trim()) {
+    const clipPrefix = "p-";
+    const summaryFilename = `${clipPrefix}untitled_${uid}.md`;
+    const summaryContent = buildPlaceholderSummaryMd(tab, tab.rawContentPathForSummary, windowLabel);
+    tab.placeholderSummary = true;
+    return { summaryFilename, summaryContent, outputDir: VAULT_CLIP_DIR };
+  }
+
+  const mode: "summary" | "analysis" = st === "web" || st === "paper" ? "analysis" : "summary";
+  const rawExtractedText = (tab.rawContent || tab.selectionText || "").trim();
+  let text = rawExtractedText;
+  if (!text) {
+    // x のスレッドは本文取得で rawContent にしているので、ここに来るのは取れなかったとき（タブ再読込後など）
+    const thread = isTwitterUrl(tab.url) ? await fetchTwitterThread(tab.id, tab.url, false) : null;
+    if (thread) tab.twitterThread = twitterThreadMeta(thread);
+    text = thread ? buildTwitterThreadMd(thread.tweets) : await fetchViaJina(tab.url, 15000);
+  }
+
+  try {
+    const raw = await generateSummaryJson({
+      fetchedText: text,
+      sourceUrl: tab.url,
+      apiKey,
+      provider,
+      model: modelId,
+      mode,
+      sourceType: st,
+      headings: tab.headings,
+      timeout: 90000,
+    });
+    const json = parseSummaryJson(raw);
+    const shortTitle =
+      getShortTitleForFilename(json.short_title) || generateShortTitle({ rawTitle: tab.title || "", url: tab.url });
+    const claim = (json.claim ?? "").trim() || undefined;
+    const topics = json.topics ?? (json.structure
+      ? [{ topic: "要点", points: json.structure.filter(Boolean) }]
+      : [...(json.three_point ?? []), ...(json.how_to ?? [])].filter(Boolean).length > 0
+        ? [{ topic: "要点", points: [...(json.three_point ?? []), ...(json.how_to ?? [])].filter(Boolean) }]
+        : []);
+    const summary = (json.shortSummary ?? json.summary ?? "").trim();
+    const tags = (json.tags ?? "").trim();
+    const out = logger({
+      mode: "clip",
+      sourceType: st,
+      pipeline: "summary",
+      rawPolicy: hasRaw ? "stored" : "url_only",
+      date: todayDate(),
+      window: windowLabel,
+      url: tab.url ?? "",
+      rawContentPath: rawPath,
+      shortTitle,
+      uid8: uid,
+      claim,
+      topics,
+      catchphrases: json.catchphrases,
+      credibility: json.credibility,
+      howTo: json.how_to,
+      summary,
+      tags,
+      extractedUrls: tab.extractedUrls,
+    });
+    return {
+      summaryFilename: out.filename,
+      summaryContent: withArchiveFrontmatter(withTwitterFrontmatter(out.content, tab.twitterThread), tab.archivePath),
+      outputDir: out.outputDir,
+    };
+  } catch {
+    const clipPrefix = st === "x" ? "p-x-" : "p-";
+    const summaryFilename = `${clipPrefix}untitled_${uid}.md`;
+    const summaryContent = buildPlaceholderSummaryMd(tab, tab.rawContentPathForSummary, windowLabel);
+    tab.placeholderSummary = true;
+    return {
+      summaryFilename,
+      summaryContent,
+      outputDir: VAULT_CLIP_DIR,
+    };
+  }
+}
+
+/** 字幕から要約。セクションの見出しは動画の該当位置（&t=）へのリンク。失敗は呼び出し側のリトライに任せる */
+async function runYoutubeSummaryForTab(
+  tab: TabInfo,
+  apiKey: string,
+  provider: AIProvider,
+  modelId: string,
+  windowLabel: string
+): Promise<{ summaryFilename: string; summaryContent: string; outputDir: string }> {
+  const { videoId, auto } = tab.youtubeTranscript!;
+  const rawPath = tab.rawContentPathForSummary ?? "（未設定）";
+  const transcriptNote = auto ? "（自動生成字幕）" : "";
+  const res = await callAI(
+    provider,
+    [
+      {
+        role: "user",
+        content: `動画: ${tab.title || tab.url}${transcriptNote}\n\n${(tab.rawContent ?? "").slice(0, TRANSCRIPT_PROMPT_MAX_CHARS)}`,
+      },
+    ],
+    {
+      apiKey,
+      model: modelId,
+      timeout: 90000,
+      maxTokens: 4000,
+      temperature: 0.2,
+      system: buildYoutubeSummaryPrompt(),
+    }
+  );
+  const json = parseYoutubeSummaryJson(res.text || "");
+  const shortTitle =
+    getShortTitleForFilename(json.short_title) || generateShortTitle({ rawTitle: tab.title || "", url: tab.url });
+  const out = logger({
+    mode: "clip",
+    sourceType: "youtube",
+    pipeline: "summary",
+    rawPolicy: rawPath !== "（未設定）" ? "stored" : "url_only",
+    date: todayDate(),
+    window: windowLabel,
+    url: tab.url ?? "",
+    rawContentPath: rawPath,
+    shortTitle,
+    uid8: tab.uid8 ?? uid8(),
+    topics: buildYoutubeTopics(json, videoId),
+    summary: json.summary.trim(),
+    tags: json.tags.trim(),
+    extractedUrls: tab.extractedUrls,
+  });
+  return {
+    summaryFilename: out.filename,
+    summaryContent: withArchiveFrontmatter(out.content, tab.archivePath),
+    outputDir: out.outputDir,
+  };
+}
+
+async function runChatDistillForTab(
+  tab: TabInfo,
+  apiKey: string,
+  provider: AIProvider,
+  modelId: string,
+  windowLabel: string,
+  chatContent: { messages: ChatMessage[]; raw_text: string; domTurns: number },
+  rawChatPath: string
+): Promise<{ summaryFilename: string; summaryContent: string; outputDir: string } | null> {
+  const uid = tab.uid8 ?? uid8();
+  const messages = chatContent.messages;
+  const conversationMd =
+    messages.length > 0 ? formatChatTurns(messages) : chatContent.raw_text.slice(0, 50000);
+  const distillSource = buildChatDistillSource(messages, chatContent.raw_text);
+  const turnsCount = messages.length;
+  const rawChars = (chatContent.raw_text || "").length;
+  const userCount = messages.filter((m) => m.speaker === "user").length;
+  const asstCount = messages.filter((m) => m.speaker === "assistant").length;
+  const warnings: string[] = [];
+  if (turnsCount < 4) warnings.push("low_turn_count");
+  if (rawChars < 80) warnings.push("short_raw_text");
+  if (Math.max(userCount, asstCount) >= 3 * Math.max(Math.min(userCount, asstCount), 1)) warnings.push("biased_roles");
+  const extraction = {
+    domTurns: chatContent.domTurns,
+    turns: turnsCount,
+    rawChars,
+    partial: warnings.length > 0,
+    warnings,
+  };
+  const rawPath = tab.rawContentPathForSummary ?? "（未設定）";
+  const hasRaw = rawPath !== "（未設定）";
+  const fm = buildChatReferenceFrontmatter({
+    url: tab.url,
+    rawContentPath: rawPath,
+    rawChatPath,
+    windowLabel,
+    hasRaw,
+    service: tab.chatService ?? "unknown",
+    extraction,
+  });
+
+  const normalizedInput = {
+    messages,
+    metadata: {
+      source_type: "chat",
+      title: tab.title || "",
+      url: tab.url,
+      service: tab.chatService ?? "unknown",
+    },
+    raw_text: chatContent.raw_text,
+  };
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const metadata = {
+        source_type: "chat" as const,
+        title: tab.title || "",
+        url: tab.url,
+        service: tab.chatService ?? "unknown",
+      };
+      const distillResult = await runChatDistillPipeline({
+        text: distillSource.slice(0, 80000),
+        metadata,
+        provider,
+        modelId,
+        apiKey,
+      });
+
+      const taskReaperOut =
+        distillResult.action != null
+          ? await runTaskReaperProcess(
+              {
+                mode: "actions",
+                source: "distill",
+                distillOutput: distillResult.action,
+                normalizedInput,
+                metadata,
+              },
+              buildTaskReaperApiKeys(provider, apiKey)
+            )
+          : {
+              mode: "actions" as const,
+              summary: distillResult.summary || distillResult.synthesis?.summary || "（要約なし）",
+              actions: [],
+            };
+
+      const synthesisShortTitle = (distillResult.synthesis?.short_title || "").trim();
+      const titleSeed = synthesisShortTitle || (taskReaperOut.summary || "").trim() || (tab.title || "").trim();
+      const shortTitle =
+        getShortTitleForFilename(titleSeed) || generateShortTitle({ rawTitle: titleSeed, url: tab.url });
+      const claim = distillResult.synthesis?.claim ?? "";
+      const catchphrases = distillResult.synthesis?.catchphrases ?? [];
+      const topics = distillResult.logical?.topics ?? [];
+      const emotionalForLogger = distillResult.emotional;
+      const phase1ForLogger = distillResult.phase1
+        ? {
+            attribution_ledger: distillResult.phase1.attribution_ledger.map((a) => ({
+              idea: a.idea,
+              origin: a.origin,
+              confidence: a.confidence,
+              accepted: a.accepted,
+            })),
+            anchor: distillResult.phase1.anchor,
+          }
+        : undefined;
+
+      const attributionMd = buildAttributionMd(distillResult.emotional?.attributions, phase1ForLogger);
+      const fullConversationMd = attributionMd ? `${conversationMd}\n\n${attributionMd}` : conversationMd;
+
+      const out = logger({
+        mode: "reference",
+        sourceType: "chat",
+        pipeline: "distill",
+        distillMode: distillResult.mode ?? "logical",
+        rawPolicy: hasRaw ? "stored" : "url_only",
+        date: todayDate(),
+        window: windowLabel,
+        service: tab.chatService ?? "unknown",
+        url: tab.url ?? "",
+        rawContentPath: rawPath,
+        rawChatPath,
+        shortTitle,
+        uid8: uid,
+        claim,
+        catchphrases,
+        summary: taskReaperOut.summary ?? "",
+        topics,
+        conversationMd: fullConversationMd,
+        emotional: emotionalForLogger,
+        phase1: phase1ForLogger,
+        extractionDomTurns: extraction.domTurns,
+        extractionTurns: extraction.turns,
+        extractionRawChars: extraction.rawChars,
+        extractionPartial: extraction.partial,
+        extractionWarnings: extraction.warnings,
+      });
+      return { summaryFilename: out.filename, summaryContent: out.content, outputDir: out.outputDir };
+    } catch (err) {
+      console.error(`chat distill error (attempt ${attempt + 1}/2):`, tab.url, err);
+    }
+  }
+  return null;
+}
+
+/**
+ * 新しく作るファイルを書き込みモードに従って書き、書いたパスを返す（create で既存があれば書かずに null）。
+ * 既存との衝突は tab.writeConflicts に記録する。
+ */
+async function writeNewVaultFile(
+  sink: StorageSink,
+  tab: TabInfo,
+  path: string,
+  content: string,
+  mode: WriteMode
+): Promise<string | null> {
+  const target = await putVaultFileOrQueue(sink, path, content, "text/markdown", {
+    writeMode: mode,
+    tab: { tabId: tab.id, title: tab.title, url: tab.url },
+  });
+  if (target !== path) {
+    const conflict: WriteConflict = target
+      ? { path, resolution: "renamed", writtenPath: target }
+      : { path, resolution: "skipped" };
+    tab.writeConflicts = [...(tab.writeConflicts ?? []), conflict];
+  }
+  return target;
+}
+
+/**
+ * 要約 md の raw_content / raw_chat を実際に書いた先に合わせる。create で書かなかった（written が null）ときは
+ * 既存の別の内容を指さないよう「（未設定）」にする
+ */
+function relinkRawPath(tab: TabInfo, from: string, written: string | null) {
+  const to = written ?? "（未設定）";
+  if (from !== to && tab.summaryContent) tab.summaryContent = tab.summaryContent.split(from).join(to);
+}
+
+/**
+ * raw・raw_chat・要約 md を書き込む。新しく作るファイルは書き込みモード（write-mode.ts）に従い、既存ノートへの
+ * 再要約・チャットの追記だけは上書きする。raw の失敗は例外、要約の失敗・create での衝突は summarySaveFailed に記録（day-index は URL のみ）
+ */
+async function saveTabToVault(sink: StorageSink, tab: TabInfo, mode: WriteMode): Promise<void> {
+  if (tab.rawFilename && tab.rawContent) {
+    const path = `${VAULT_RAW_DIR}/${tab.rawFilename}`;
+    const written = await writeNewVaultFile(sink, tab, path, tab.rawContent, mode);
+    relinkRawPath(tab, path, written);
+  }
+  if (tab.chatRawFilename && tab.chatRawContent) {
+    const path = `${VAULT_RAW_DIR}/${tab.chatRawFilename}`;
+    if (tab.chatUpdate) {
+      await putVaultFileOrQueue(sink, path, tab.chatRawContent, "text/markdown");
+    } else {
+      const written = await writeNewVaultFile(sink, tab, path, tab.chatRawContent, mode);
+      relinkRawPath(tab, path, written);
+    }
+  }
+  if (!tab.summaryFilename || !tab.summaryContent) return;
+  const dir = tab.summaryVaultDir ?? (tab.chatService ? VAULT_REFERENCE_DIR : VAULT_CLIP_DIR);
+  const path = `${dir}/${tab.summaryFilename}`;
+  try {
+    if (path === tab.existingClipPath) {
+      await putVaultFileOrQueue(sink, path, tab.summaryContent);
+      return;
+    }
+    const written = await writeNewVaultFile(sink, tab, path, tab.summaryContent, mode);
+    if (!written) {
+      tab.summarySaveFailed = true;
+      return;
+    }
+    tab.summaryVaultDir = dir;
+    tab.summaryFilename = written.slice(dir.length + 1);
+  } catch (e) {
+    tab.summarySaveFailed = true;
+    console.error("summary save error:", tab.url, e);
+  }
+}
+
+/** 「既存に再要約」「新しいターンを追記」: 既存ノートを上書きする（day-index も既存ノートを指す） */
+function retargetToExistingClip(tab: TabInfo) {
+  const path = tab.existingClipPath!;
+  const slash = path.lastIndexOf("/");
+  tab.summaryVaultDir = path.slice(0, slash);
+  tab.summaryFilename = path.slice(slash + 1);
+}
+
+const DAY_INDEX_PATH = "library/day-index.md";
+
+function buildDayIndexEntry(
+  byWindow: SelectedWindow[],
+  date: Date,
+  failedSummaryTabIds: Set<number> = new Set<number>()
+): string {
+  const ymd =
+    date.getFullYear() +
+    "-" +
+    String(date.getMonth() + 1).padStart(2, "0") +
+    "-" +
+    String(date.getDate()).padStart(2, "0");
+  const lines: string[] = [`[[${ymd}]]`];
+  byWindow.forEach((w) => {
+    lines.push(`- ${w.windowLabel}`);
+    let currentGroupId: number | undefined;
+    w.tabs.forEach((t) => {
+      const group = w.groups.find((g) => g.id === t.groupId);
+      if (group && group.id !== currentGroupId) lines.push(`\t- ${group.label}`);
+      currentGroupId = group?.id;
+      const useUrl = failedSummaryTabIds.has(t.id);
+      const link = !useUrl && t.summaryFilename
+        ? `[[${t.summaryFilename.replace(/\.md$/i, "")}]]`
+        : `[${t.title || "（無題）"}](${t.url})`;
+      lines.push(`${group ? "\t\t" : "\t"}- ${link}`);
+    });
+  });
+  return lines.join("\n") + "\n";
+}
+
+/** failedSummaryTabIds に入れたタブは要約ノートではなく URL リンクで書く */
+export async function appendDayIndex(
+  sink: StorageSink,
+  byWindow: SelectedWindow[],
+  date: Date,
+  failedSummaryTabIds: Set<number> = new Set<number>()
+) {
+  const entry = buildDayIndexEntry(byWindow, date, failedSummaryTabIds);
+  await appendVaultFileOrQueue(sink, DAY_INDEX_PATH, "\n" + entry);
+}
+
+/**
+ * 保存済みの会話に新しいターンだけを追記する。raw_chat は今回の全体で上書きし、差分だけ distill して
+ * 既存ノートの末尾に日付付きの節を足す。保存済みの会話と照合できなければ false（通常の保存にする）。
+ */
+async function appendChatUpdate(
+  sink: StorageSink,
+  tab: TabInfo,
+  chat: Awaited<ReturnType<typeof fetchChatContent>>,
+  progress: string,
+  wLabel: string,
+  workerModel: { provider: AIProvider; modelId: string; apiKey: string },
+  report: StatusReporter
+): Promise<boolean> {
+  const stored = await loadStoredChat(sink, tab.existingClipPath!).catch(() => null);
+  if (!stored) return false;
+  const newTurns = findNewTurns(chat.messages, stored.rawChatBody);
+  if (newTurns === null) return false;
+
+  // 本文 raw は追記では作らない（会話は raw_chat に残る）
+  tab.rawFilename = undefined;
+  tab.chatRawFilename = undefined;
+  if (newTurns.length === 0) {
+    report(`新しいターンなし (${progress})`, "info");
+    // ノートは書き換えず、day-index は既存ノートを指す
+    tab.summaryContent = undefined;
+    tab.chatUpdate = { newTurns: 0 };
+    return true;
+  }
+
+  report(`追記分を distill中 (${progress}: ${newTurns.length}ターン)...`, "info");
+  const { apiKey, provider, modelId } = workerModel;
+  const delta = {
+    messages: newTurns,
+    raw_text: newTurns.map((m) => `### ${m.speaker}\n${m.text}`).join("\n\n"),
+    domTurns: chat.domTurns > 0 ? newTurns.length : 0,
+  };
+  const out = await runChatDistillForTab(tab, apiKey, provider, modelId, wLabel, delta, stored.rawChatPath);
+  if (out === null) {
+    tab.distillFailed = true;
+    return true;
+  }
+  const section = buildChatUpdateSection(out.summaryContent, todayDate(), newTurns.length);
+  tab.summaryContent = `${stored.noteContent.trimEnd()}\n\n${section}`;
+  tab.chatUpdate = { newTurns: newTurns.length };
+  // raw_chat は distill できたときだけ今回の全体で上書きする（失敗分は次回また差分になる）
+  if (stored.rawChatPath.startsWith(`${VAULT_RAW_DIR}/`)) {
+    const now = new Date().toISOString();
+    tab.chatRawFilename = stored.rawChatPath.slice(VAULT_RAW_DIR.length + 1);
+    tab.chatRawContent = buildChatRawContentMd(
+      appendSourcesSection(chat.raw_text, chat.sources),
+      tab.url,
+      tab.chatService!,
+      stored.createdAt ?? now,
+      now
+    );
+  }
+  return true;
+}
+
+/** chat は distill、それ以外は URL 要約（最大3回）。失敗時はプレースホルダ or distillFailed を立てる */
+async function summarizeTab(
+  sink: StorageSink,
+  tab: TabInfo,
+  progress: string,
+  wLabel: string,
+  workerModel: { provider: AIProvider; modelId: string; apiKey: string },
+  report: StatusReporter
+): Promise<void> {
+  const { apiKey, provider, modelId } = workerModel;
+  if (tab.chatService) {
+    if (!(await isSameTab(tab.id, tab.url))) {
+      report(`タブが見つからないため会話を取得できません (${progress}): ${tab.url}`, "error");
+      tab.distillFailed = true;
+      return;
+    }
+    report(`チャット抽出中 (${progress})...`, "info");
+    const chat = await fetchChatContent(tab.id, tab.url, false);
+    if (
+      tab.duplicateAction === "append" &&
+      tab.existingClipPath &&
+      !isChatCaptureFailed(chat).failed &&
+      (await appendChatUpdate(sink, tab, chat, progress, wLabel, workerModel, report))
+    ) {
+      return;
+    }
+    const uid = tab.uid8 ?? uid8();
+    const createdAt = new Date().toISOString();
+    tab.chatRawFilename = `chat-${tab.chatService}_${uid}.md`;
+    tab.chatRawContent = buildChatRawContentMd(
+      appendSourcesSection(chat.raw_text, chat.sources),
+      tab.url,
+      tab.chatService,
+      createdAt
+    );
+    const rawChatPath = `${RAW_CONTENT_PATH_PREFIX}/${tab.chatRawFilename}`;
+    const captureCheck = isChatCaptureFailed(chat);
+    if (captureCheck.failed) {
+      report(`chat捕獲失敗 (${progress}): ${captureCheck.reasons.join(", ")}。distill停止`, "error");
+      const summaryFilename = `c-capture_failed_${uid}.md`;
+      tab.summaryFilename = summaryFilename;
+      tab.summaryContent = buildChatCaptureFailedSummaryMd({
+        tab,
+        windowLabel: wLabel,
+        rawChatPath,
+        chat,
+        reasons: captureCheck.reasons,
+      });
+      tab.summaryVaultDir = VAULT_REFERENCE_DIR;
+      tab.chatCaptureFailed = true;
+      return;
+    }
+    report(`distill中 (${progress})...`, "info");
+    const out = await runChatDistillForTab(tab, apiKey, provider, modelId, wLabel, chat, rawChatPath);
+    if (out === null) {
+      tab.distillFailed = true;
+      return;
+    }
+    tab.summaryFilename = out.summaryFilename;
+    tab.summaryContent = appendSourcesSection(out.summaryContent, chat.sources);
+    tab.summaryVaultDir = out.outputDir;
+    return;
+  }
+  const maxAttempts = 3;
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    report(attempt === 0 ? `要約中 (${progress})...` : `要約リトライ (${progress})...`, "info");
+    try {
+      const out = await runUrlSummaryForTab(tab, apiKey, provider, modelId, wLabel);
+      tab.summaryFilename = out.summaryFilename;
+      tab.summaryContent = out.summaryContent;
+      tab.summaryVaultDir = out.outputDir;
+      return;
+    } catch (err) {
+      console.error(`URL要約エラー (attempt ${attempt + 1}/${maxAttempts}):`, tab.url, err);
+    }
+  }
+  const fallbackPrefix = sourceTypeOfTab(tab) === "x" ? "p-x-" : "p-";
+  tab.summaryFilename = `${fallbackPrefix}untitled_${tab.uid8 ?? uid8()}.md`;
+  tab.summaryContent = buildPlaceholderSummaryMd(tab, tab.rawContentPathForSummary, wLabel);
+  tab.summaryVaultDir = VAULT_CLIP_DIR;
+  tab.placeholderSummary = true;
+}
+
+/**
+ * 本文の取り出し。選択テキスト > PDF（offscreen の pdf.js）> YouTube 字幕 > ページ DOM の順。
+ * PDF・字幕は DOM から取れない本文そのものなので wholeDocument を立て、短くても raw に残す。
+ */
+async function captureTabBody(
+  tab: TabInfo,
+  progress: string,
+  report: StatusReporter,
+  present: boolean
+): Promise<{
+  bodyText: string | null;
+  links: string[];
+  headings: Array<{ level: number; text: string }>;
+  wholeDocument: boolean;
+}> {
+  if (tab.selectionText) return { bodyText: tab.selectionText, links: [], headings: [], wholeDocument: false };
+  const sourceType = sourceTypeOfTab(tab);
+  if (sourceType === "paper") {
+    report(`PDF解析中 (${progress})...`, "info");
+    const pdf = await fetchPdfText(tab.url);
+    if (pdf) return { bodyText: pdf.text, links: [], headings: pdf.headings, wholeDocument: true };
+  }
+  // 選択範囲・PDF 以外はタブから読むので、タブが無ければ本文なし
+  if (!present) return { bodyText: null, links: [], headings: [], wholeDocument: false };
+  if (!tab.chatService && isTwitterUrl(tab.url)) {
+    report(`スレッド取得中 (${progress})...`, "info");
+    const thread = await fetchTwitterThread(tab.id, tab.url, false);
+    if (thread) {
+      tab.twitterThread = twitterThreadMeta(thread);
+      if (thread.partial) {
+        report(`スレッドの続きを読み込めず、途中までを保存します (${progress}, ${thread.tweets.length}件)`, "error");
+      }
+      return {
+        bodyText: buildTwitterThreadMd(thread.tweets),
+        links: twitterThreadLinks(thread.tweets),
+        headings: [],
+        wholeDocument: true,
+      };
+    }
+  }
+  if (sourceType === "youtube") {
+    report(`字幕取得中 (${progress})...`, "info");
+    const transcript = await fetchYoutubeTranscript(tab.id, tab.url, false);
+    if (transcript) {
+      const { videoId, language, auto } = transcript;
+      tab.youtubeTranscript = { videoId, language, auto };
+      return { bodyText: buildTranscriptText(transcript), links: [], headings: [], wholeDocument: true };
+    }
+  }
+  const { bodyText, links } = await fetchTabBodyAndLinks(tab.id, tab.url, false);
+  return { bodyText, links, headings: await fetchTabHeadings(tab.id, tab.url, false), wholeDocument: false };
+}
+
+/** 選択テキストを引用ノートにする。commentaryModel があれば作業AIのコメントを付ける */
+async function buildQuoteNote(
+  tab: TabInfo,
+  wLabel: string,
+  commentaryModel: { provider: AIProvider; modelId: string; apiKey: string } | null,
+  report: StatusReporter
+): Promise<void> {
+  const quote = tab.selectionText ?? "";
+  let commentary: string | null = null;
+  if (commentaryModel) {
+    report("引用へのコメント作成中...", "info");
+    commentary = await generateQuoteCommentary(tab, quote, commentaryModel);
+  }
+  tab.summaryFilename = `q-${tab.baseForFilename ?? getBaseForTab(tab)}_${tab.uid8 ?? uid8()}.md`;
+  tab.summaryContent = buildQuoteNoteMd({ tab, quote, windowLabel: wLabel, date: todayDate(), commentary });
+  tab.summaryVaultDir = VAULT_CLIP_DIR;
+}
+
+/**
+ * 選択タブを保存する。保存先（storage-sink.ts）が未設定なら report でエラーを出して null を返す。
+ * 保存先に接続できなくても本文取得・要約は進め、Vault への書き込みは送信待ち（outbox.ts）に溜める。
+ * 各タブは jobs に到達ステージを記録し、再開時は終わったステージを飛ばす。
+ * 戻り値の distillFailedTabIds は popup のタブ赤表示に、reapedTabs は保存後のタブ処理に、
+ * writeConflicts は既存ファイルとの衝突（書き込みモードで別名にした・書かなかった）の表示に使う。
+ */
+export async function runReap(
+  byWindow: SelectedWindow[],
+  report: StatusReporter,
+  jobs: JobTracker
+): Promise<{
+  distillFailedTabIds: number[];
+  reapedTabs: Array<{ id: number; url: string }>;
+  writeConflicts: TabWriteConflict[];
+} | null> {
+  const sink = await loadStorageSink();
+  if (!sink) {
+    report("保存先が未設定です（設定画面で Obsidian の API Key・フォルダ・URL を設定）", "error");
+    return null;
+  }
+  const sinkLabel = SINK_LABELS[sink.kind];
+  report(`${sinkLabel} 接続確認中...`, "info");
+  const alive = await sink.healthCheck();
+  if (alive) {
+    // 前回の送信待ちを先に送っておく（失敗しても今回の書き込みはその後ろに並ぶだけ）
+    await flushOutbox(sink).catch((e) => console.error("outbox flush error:", e));
+  } else {
+    report(`${sinkLabel} に接続できません。書き込みは送信待ちに入れ、次に接続できたときに送ります`, "info");
+  }
+
+  const workerModel = await loadWorkerModel();
+  const archiveMode = await loadArchiveMode();
+
+  const flatTabs = byWindow.flatMap((w) => w.tabs);
+  const total = flatTabs.length;
+
+  // 1-0 / 2-0: 本文取得の第一パス。Discarded はアクティブ化してから取得。順次・進捗表示。
+  for (let i = 0; i < flatTabs.length; i++) {
+    const tab = flatTabs[i];
+    if (jobs.reached(tab.id, "body")) continue;
+    // 再開時はタブが閉じられたり ID が別のタブに使われていることがある。そのタブからは読まない
+    const present = await isSameTab(tab.id, tab.url);
+    if (!present) report(`タブが見つからないため本文を取得しません (${i + 1}/${total}): ${tab.url}`, "error");
+    const discarded = tab.discarded ?? false;
+    if (present && discarded) {
+      report(`Discarded タブを読み込み中 (${i + 1}/${total})...`, "info");
+      await ensureTabLoadedForBody(tab.id);
+    }
+    report(`本文取得中 (${i + 1}/${total})...`, "info");
+    const uid = uid8();
+    const base = getBaseForTab(tab);
+    tab.uid8 = uid;
+    tab.baseForFilename = base;
+    const { bodyText, links, headings, wholeDocument } = await captureTabBody(tab, `${i + 1}/${total}`, report, present);
+    tab.headings = headings;
+    const fromText = bodyText ? extractUrlsFromText(bodyText) : [];
+    const hrefs = new Set(links.map(hrefFromObsidianLink).filter((h): h is string => h != null));
+    const fromTextLinks = fromText.filter((u) => !hrefs.has(u)).map((u) => `[${u}](${u})`);
+    tab.extractedUrls = [...links, ...fromTextLinks].slice(0, 30);
+    if (bodyText != null && bodyText.length > 0) {
+      const rawPrefix = tab.chatService ? "c-" : sourceTypeOfTab(tab) === "x" ? "p-x-" : "p-";
+      const shouldStoreRaw =
+        !tab.quoteClip && (!!tab.chatService || wholeDocument || bodyText.length >= RAW_CONTENT_MIN_CHARS);
+      if (shouldStoreRaw && tab.noRaw) {
+        // ルールで raw を残さない: 要約の入力には使うが書き込まない
+        tab.rawContent = bodyText;
+        tab.rawContentPathForSummary = "（未設定）";
+      } else if (shouldStoreRaw) {
+        tab.rawFilename = `${rawPrefix}${base}_${uid}.txt`;
+        tab.rawContent = bodyText;
+        tab.rawContentPathForSummary = `${RAW_CONTENT_PATH_PREFIX}/${rawPrefix}${base}_${uid}.txt`;
+      } else {
+        tab.rawContentPathForSummary = "（未設定）";
+      }
+    } else {
+      tab.rawContentPathForSummary = "（未設定）";
+    }
+
+    const winForTab = byWindow.find((w) => w.tabs.some((t) => t.id === tab.id));
+    if (present && (tab.captureImages || winForTab?.captureImages)) {
+      report(`画像URL取得中 (${i + 1}/${total})...`, "info");
+      tab.pageImageUrls = await fetchTabImages(tab.id, tab.url, false);
+    }
+    // チャットは raw_chat、引用は選択範囲が本体なのでアーカイブしない。PDF は元ファイルが残る
+    if (present && archiveMode !== "off" && !tab.chatService && !tab.quoteClip && sourceTypeOfTab(tab) !== "paper") {
+      report(`アーカイブ保存中 (${i + 1}/${total})...`, "info");
+      const archivePrefix = sourceTypeOfTab(tab) === "x" ? "p-x-" : "p-";
+      try {
+        const path = await saveTabArchive(sink, tab, `${VAULT_RAW_DIR}/${archivePrefix}${base}_${uid}`, archiveMode);
+        if (path) tab.archivePath = path;
+      } catch (e) {
+        console.error("archive save error:", tab.url, e);
+      }
+    }
+    await jobs.mark(tab, "body");
+  }
+
+  const tabWindowLabel = new Map<number, string>();
+  byWindow.forEach((w) => w.tabs.forEach((t) => tabWindowLabel.set(t.id, labelForTab(w, t))));
+
+  const quoteTabs = flatTabs.filter((t) => t.quoteClip && !jobs.reached(t.id, "summarized"));
+  if (quoteTabs.length > 0) {
+    const commentaryModel = workerModel && (await loadQuoteCommentaryEnabled()) ? workerModel : null;
+    for (const tab of quoteTabs) {
+      await buildQuoteNote(tab, tabWindowLabel.get(tab.id) ?? "", commentaryModel, report);
+      await jobs.mark(tab, "summarized");
+    }
+  }
+
+  if (workerModel) {
+    for (let i = 0; i < flatTabs.length; i++) {
+      const tab = flatTabs[i];
+      if (jobs.reached(tab.id, "summarized") || tab.skipSummary) continue;
+      await summarizeTab(sink, tab, `${i + 1}/${total}`, tabWindowLabel.get(tab.id) ?? "", workerModel, report);
+      await jobs.mark(tab, "summarized");
+    }
+  }
+  // 作業AIが無い場合と、ルールで要約しないタブはプレースホルダ
+  const pending = byWindow.map((w) => ({ ...w, tabs: w.tabs.filter((t) => !jobs.reached(t.id, "summarized")) }));
+  addPlaceholderFilenames(pending);
+  for (const tab of pending.flatMap((w) => w.tabs)) await jobs.mark(tab, "summarized");
+
+  let imageSettings: Awaited<ReturnType<typeof loadImageSettings>> | undefined;
+  for (let i = 0; i < flatTabs.length; i++) {
+    const tab = flatTabs[i];
+    if (jobs.reached(tab.id, "images")) continue;
+    if (!tab.pageImageUrls?.length) {
+      await jobs.mark(tab, "images");
+      continue;
+    }
+    report(`画像ダウンロード中 (${i + 1}/${total})...`, "info");
+    imageSettings ??= await loadImageSettings();
+    const images: { filename: string; alt: string; videoUrl?: string }[] = [];
+    for (const img of tab.pageImageUrls) {
+      try {
+        const filename = await saveImageToVault(sink, VAULT_IMAGE_DIR, img.src, imageSettings);
+        // 同じ画像がページ内で重複していれば1回だけ載せる
+        if (!filename || images.some((saved) => saved.filename === filename)) continue;
+        images.push({ filename, alt: img.alt, videoUrl: img.videoUrl });
+      } catch (e) {
+        console.error("image save error:", img.src.slice(0, 200), e);
+      }
+    }
+    tab.capturedImages = images;
+    if (images.length > 0 && tab.summaryContent) {
+      tab.summaryContent = appendImagesSectionToMd(tab.summaryContent, images);
+    }
+    await jobs.mark(tab, "images");
+  }
+
+  report(`${sinkLabel} に保存中...`, "info");
+  const writeMode = await loadWriteMode();
+  try {
+    for (const tab of flatTabs) {
+      if (jobs.reached(tab.id, "written")) continue;
+      if (
+        tab.existingClipPath &&
+        (tab.chatUpdate || (tab.duplicateAction === "resummarize" && tab.summaryContent))
+      ) {
+        retargetToExistingClip(tab);
+      } else if (tab.vaultDir) {
+        tab.summaryVaultDir = tab.vaultDir;
+      }
+      await saveTabToVault(sink, tab, writeMode);
+      // 送信待ちは先頭から順に送るので、このタブの書き込み後に残っていればこのタブの分も届いていない
+      tab.writeQueued = (await countOutbox()) > 0;
+      await jobs.mark(tab, "written");
+    }
+    const distillFailedTabIds = flatTabs.filter((t) => t.distillFailed).map((t) => t.id);
+    const allFailedIds = new Set([
+      ...flatTabs.filter((t) => t.summarySaveFailed).map((t) => t.id),
+      ...distillFailedTabIds,
+    ]);
+    const toIndex = byWindow
+      .map((w) => ({ ...w, tabs: w.tabs.filter((t) => !jobs.reached(t.id, "indexed")) }))
+      .filter((w) => w.tabs.length > 0);
+    if (toIndex.length > 0) await appendDayIndex(sink, toIndex, new Date(), allFailedIds);
+    for (const tab of toIndex.flatMap((w) => w.tabs)) await jobs.mark(tab, "indexed");
+    await jobs.finish();
+    const failCount = distillFailedTabIds.length;
+    const queued = await countOutbox();
+    const writeConflicts = flatTabs.flatMap((t) =>
+      (t.writeConflicts ?? []).map((c) => ({ ...c, tabId: t.id, title: t.title }))
+    );
+    const skipped = writeConflicts.filter((c) => c.resolution === "skipped").length;
+    if (failCount > 0) {
+      report(`保存完了（distill失敗 ${failCount}件: URLのみ記録）`, "error");
+    } else if (skipped > 0) {
+      report(`保存完了（既存ファイルがあるため ${skipped}件を書き込みませんでした）`, "error");
+    } else if (writeConflicts.length > 0) {
+      report(`保存完了（既存ファイルと同名の ${writeConflicts.length}件は別名で保存）`, "success");
+    } else if (queued > 0) {
+      report(`${sinkLabel} に接続できないため ${queued}件の書き込みが送信待ちです（接続できたら自動で送ります）`, "info");
+    } else {
+      report("library/clip・library/reference に保存しました", "success");
+    }
+    // 引用ノートはページ全体の保存ではないので、保存済み URL にも保存後のタブ処理にも含めない
+    const saved = flatTabs
+      .filter((t) => t.summaryFilename && !t.summarySaveFailed && !t.distillFailed && !t.chatCaptureFailed)
+      .filter((t) => !t.quoteClip);
+    await recordClips(
+      saved.map((t) => ({ url: t.url, path: `${t.summaryVaultDir ?? VAULT_CLIP_DIR}/${t.summaryFilename}` }))
+    );
+    // 閉じる・破棄するのは要約が保存先に届いたタブだけ（送信待ち・プレースホルダは残す）
+    const reapedTabs = saved
+      .filter((t) => !t.writeQueued && !t.placeholderSummary)
+      .map((t) => ({ id: t.id, url: t.url }));
+    return { distillFailedTabIds, reapedTabs, writeConflicts };
+  } catch (e) {
+    report(`保存エラー: ${(e as Error).message}`, "error");
+    console.error(e);
+    return null;
+  }
+}
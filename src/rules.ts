@@ -0,0 +1,95 @@
+/**
+ * ドメイン / URL パターンごとの保存ルール（設定画面の表で編集）。
+ * 上から順に最初に一致したルールだけを使い、保存開始時にタブへ反映する（除外・種別・要約/raw/画像・保存先）。
+ */
+
+import type { SelectedWindow, SourceType, TabInfo } from "./tab-info";
+
+export const STORAGE_KEY_DOMAIN_RULES = "tabReaper_domainRules";
+
+export interface DomainRule {
+  /**
+   * "example.com"（サブドメインも一致）/ "example.com/blog"（前方一致）/
+   * "*" を含むワイルドカード（スキーム抜きの URL 全体）/ "/正規表現/"（URL 全体）
+   */
+  pattern: string;
+  /** detectSourceType の判定を上書き */
+  sourceType?: SourceType;
+  /** 要約せずプレースホルダだけ保存する */
+  skipSummary?: boolean;
+  /** 本文（raw_content）を保存しない */
+  noRaw?: boolean;
+  /** ウィンドウの設定に関わらず画像を取り込む */
+  captureImages?: boolean;
+  /** 要約ノートの保存先フォルダ（Vault 相対） */
+  vaultDir?: string;
+  /** 保存対象から外す */
+  exclude?: boolean;
+}
+
+export async function loadDomainRules(): Promise<DomainRule[]> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_DOMAIN_RULES);
+  const rules = o[STORAGE_KEY_DOMAIN_RULES];
+  return Array.isArray(rules) ? (rules as DomainRule[]).filter((r) => r.pattern?.trim()) : [];
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function ruleMatchesUrl(rule: DomainRule, url: string): boolean {
+  const pattern = rule.pattern.trim();
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2].replace(/[gy]/g, "")).test(url);
+    } catch {
+      return false;
+    }
+  }
+  const withoutScheme = url.replace(/^[a-z]+:\/\//i, "");
+  if (pattern.includes("*")) {
+    const glob = pattern.replace(/^[a-z]+:\/\//i, "").split("*").map(escapeRegExp).join(".*");
+    return new RegExp(`^${glob}$`, "i").test(withoutScheme);
+  }
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  const p = pattern.toLowerCase().replace(/^www\./, "");
+  if (p.includes("/")) return withoutScheme.toLowerCase().replace(/^www\./, "").startsWith(p);
+  return host === p || host.endsWith(`.${p}`);
+}
+
+export function findRuleForUrl(rules: DomainRule[], url: string): DomainRule | null {
+  return rules.find((r) => ruleMatchesUrl(r, url)) ?? null;
+}
+
+function applyRuleToTab(tab: TabInfo, rule: DomainRule): TabInfo {
+  return {
+    ...tab,
+    sourceType: rule.sourceType ?? tab.sourceType,
+    skipSummary: rule.skipSummary || tab.skipSummary || undefined,
+    noRaw: rule.noRaw || tab.noRaw || undefined,
+    captureImages: rule.captureImages || tab.captureImages || undefined,
+    vaultDir: rule.vaultDir?.trim().replace(/^\/+|\/+$/g, "") || tab.vaultDir,
+  };
+}
+
+/** ルールを反映した保存対象を返す。除外ルールに当たったタブを落とし、空になったウィンドウ・グループも外す */
+export function applyDomainRules(byWindow: SelectedWindow[], rules: DomainRule[]): SelectedWindow[] {
+  if (rules.length === 0) return byWindow;
+  return byWindow
+    .map((w) => {
+      const tabs: TabInfo[] = [];
+      for (const tab of w.tabs) {
+        const rule = findRuleForUrl(rules, tab.url);
+        if (rule?.exclude) continue;
+        tabs.push(rule ? applyRuleToTab(tab, rule) : tab);
+      }
+      return { ...w, tabs, groups: w.groups.filter((g) => tabs.some((t) => t.groupId === g.id)) };
+    })
+    .filter((w) => w.tabs.length > 0);
+}
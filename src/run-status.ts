@@ -0,0 +1,58 @@
+/**
+ * popup ↔ background の保存実行プロトコル。
+ * 進捗は chrome.storage.session に置き、popup は開いている間だけ onChanged で追従する。
+ */
+
+import type { SelectedWindow, WriteConflict } from "./tab-info";
+
+export const STORAGE_KEY_RUN_STATUS = "tabReaper_runStatus";
+
+export type StatusType = "info" | "success" | "error";
+
+export type StatusReporter = (message: string, type: StatusType) => void;
+
+/** 既存ファイルとぶつかった書き込み（popup でタブごとに表示） */
+export type TabWriteConflict = WriteConflict & { tabId: number; title: string | null };
+
+export interface RunStatus {
+  running: boolean;
+  message: string;
+  type: StatusType;
+  /** 直近の実行で distill に失敗したタブ（popup で赤表示） */
+  distillFailedTabIds: number[];
+  /** 保存後アクションで閉じたタブ（popup の一覧から外す） */
+  closedTabIds: number[];
+  /** 直近の実行で既存ファイルと衝突し、別名にした・書かなかった書き込み */
+  writeConflicts: TabWriteConflict[];
+  updatedAt: string;
+}
+
+export type ReapRequest =
+  /** discardPending: 中断した実行が残っていても破棄して始める（popup で確認済み） */
+  | { type: "reap:start"; byWindow: SelectedWindow[]; discardPending?: boolean }
+  | { type: "reap:resume" }
+  | { type: "reap:undo" }
+  | { type: "outbox:flush" }
+  | { type: "outbox:discard" };
+
+export type ReapResponse = { ok: true } | { ok: false; error: string };
+
+export async function loadRunStatus(): Promise<RunStatus | null> {
+  const o = await chrome.storage.session.get(STORAGE_KEY_RUN_STATUS);
+  return (o[STORAGE_KEY_RUN_STATUS] as RunStatus | undefined) ?? null;
+}
+
+export async function saveRunStatus(status: RunStatus): Promise<void> {
+  await chrome.storage.session.set({ [STORAGE_KEY_RUN_STATUS]: status });
+}
+
+/** 送信待ちを後から送ったときの衝突を直近の実行結果に足す（popup のタブ表示に出す） */
+export async function appendRunWriteConflicts(conflicts: TabWriteConflict[]): Promise<void> {
+  const status = await loadRunStatus();
+  if (!status || conflicts.length === 0) return;
+  await saveRunStatus({
+    ...status,
+    writeConflicts: [...(status.writeConflicts ?? []), ...conflicts],
+    updatedAt: new Date().toISOString(),
+  });
+}
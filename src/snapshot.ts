@@ -0,0 +1,140 @@
+/**
+ * 定時スナップショット。毎日決まった時刻に全ウィンドウのタブを URL リンクだけで day-index に記録する（LLM は使わない）。
+ * 設定で N 日以上開きっぱなしのタブは通常の保存（要約）に回す。開いた日はスナップショットで初めて見た日で数える。
+ */
+
+import { normalizeUrlForDedup } from "@pipelines/url-summary";
+import { lookupExistingClips } from "./clip-index";
+import { appendDayIndex } from "./reap";
+import { loadStorageSink } from "./storage-sink";
+import { countOutbox } from "./outbox";
+import { applyDomainRules, loadDomainRules } from "./rules";
+import { fetchWindowGroups } from "./tab-capture";
+import { contentOnlyTitle, toTabInfo, type SelectedWindow } from "./tab-info";
+
+export const STORAGE_KEY_SNAPSHOT_ENABLED = "tabReaper_snapshotEnabled";
+export const STORAGE_KEY_SNAPSHOT_TIME = "tabReaper_snapshotTime";
+export const STORAGE_KEY_SNAPSHOT_SUMMARIZE_DAYS = "tabReaper_snapshotSummarizeDays";
+const STORAGE_KEY_TAB_FIRST_SEEN = "tabReaper_tabFirstSeen";
+
+export const SNAPSHOT_ALARM_NAME = "tabReaper-snapshot";
+export const DEFAULT_SNAPSHOT_TIME = "21:00";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SnapshotSettings {
+  enabled: boolean;
+  /** "HH:MM"（ローカル時刻） */
+  time: string;
+  /** この日数以上開いているタブを要約保存する。0 なら要約しない */
+  summarizeAfterDays: number;
+}
+
+export async function loadSnapshotSettings(): Promise<SnapshotSettings> {
+  const o = await chrome.storage.local.get([
+    STORAGE_KEY_SNAPSHOT_ENABLED,
+    STORAGE_KEY_SNAPSHOT_TIME,
+    STORAGE_KEY_SNAPSHOT_SUMMARIZE_DAYS,
+  ]);
+  const time = o[STORAGE_KEY_SNAPSHOT_TIME];
+  const days = Number(o[STORAGE_KEY_SNAPSHOT_SUMMARIZE_DAYS]);
+  return {
+    enabled: o[STORAGE_KEY_SNAPSHOT_ENABLED] === true,
+    time: typeof time === "string" && /^\d{1,2}:\d{2}$/.test(time) ? time : DEFAULT_SNAPSHOT_TIME,
+    summarizeAfterDays: Number.isFinite(days) && days > 0 ? Math.floor(days) : 0,
+  };
+}
+
+function nextOccurrence(time: string, now = new Date()): number {
+  const [h, m] = time.split(":").map(Number);
+  const next = new Date(now);
+  next.setHours(h, m, 0, 0);
+  if (next.getTime() <= now.getTime()) next.setDate(next.getDate() + 1);
+  return next.getTime();
+}
+
+/** 設定に合わせて次回のアラームを登録し直す（無効なら解除）。発火ごとに呼び直して夏時間のずれを避ける */
+export async function scheduleSnapshotAlarm(): Promise<void> {
+  const settings = await loadSnapshotSettings();
+  await chrome.alarms.clear(SNAPSHOT_ALARM_NAME);
+  if (!settings.enabled) return;
+  await chrome.alarms.create(SNAPSHOT_ALARM_NAME, { when: nextOccurrence(settings.time) });
+}
+
+/** 開いている URL の初見時刻を更新し、閉じられた URL は忘れる */
+async function updateFirstSeen(urls: string[], now: Date): Promise<Record<string, string>> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_TAB_FIRST_SEEN);
+  const previous = (o[STORAGE_KEY_TAB_FIRST_SEEN] ?? {}) as Record<string, string>;
+  const next: Record<string, string> = {};
+  for (const url of urls) {
+    const key = normalizeUrlForDedup(url);
+    next[key] = previous[key] ?? now.toISOString();
+  }
+  await chrome.storage.local.set({ [STORAGE_KEY_TAB_FIRST_SEEN]: next });
+  return next;
+}
+
+/** 通常ウィンドウの http(s) タブをウィンドウ単位にまとめる。ラベルはアクティブタブのタイトルから */
+async function collectOpenWindows(): Promise<SelectedWindow[]> {
+  const windows = await chrome.windows.getAll({ populate: true, windowTypes: ["normal"] });
+  const byWindow: SelectedWindow[] = [];
+  for (const win of windows) {
+    const tabs = (win.tabs ?? []).filter((t) => t.url?.startsWith("http"));
+    if (tabs.length === 0) continue;
+    const activeTab = tabs.find((t) => t.active) ?? tabs[0];
+    byWindow.push({
+      windowIndex: byWindow.length + 1,
+      windowLabel: contentOnlyTitle(activeTab.title ?? null) || `ウィンドウ ${byWindow.length + 1}`,
+      tabs: tabs.map((t) => toTabInfo(t)),
+      captureImages: false,
+      groups: await fetchWindowGroups(win.id!),
+    });
+  }
+  return byWindow;
+}
+
+function filterTabs(byWindow: SelectedWindow[], keep: (url: string) => boolean): SelectedWindow[] {
+  return byWindow
+    .map((w) => {
+      const tabs = w.tabs.filter((t) => keep(t.url));
+      return { ...w, tabs, groups: w.groups.filter((g) => tabs.some((t) => t.groupId === g.id)) };
+    })
+    .filter((w) => w.tabs.length > 0);
+}
+
+/**
+ * スナップショットを取る。リンクのみのタブは day-index に書き、要約に回すタブ（未クリップで N 日以上）は返す。
+ * allowSummarize が false（保存処理の実行中など）なら全タブをリンクのみで記録する。
+ * 保存先に接続できなければ day-index の追記は送信待ち（outbox.ts）に入れ、queued で知らせる。
+ */
+export async function takeSnapshot(
+  allowSummarize: boolean
+): Promise<{ linkedCount: number; toSummarize: SelectedWindow[]; queued: boolean }> {
+  const sink = await loadStorageSink();
+  if (!sink) throw new Error("保存先が未設定です");
+  const alive = await sink.healthCheck();
+  const now = new Date();
+  const byWindow = applyDomainRules(await collectOpenWindows(), await loadDomainRules());
+  const urls = byWindow.flatMap((w) => w.tabs.map((t) => t.url));
+  const firstSeen = await updateFirstSeen(urls, now);
+
+  const { summarizeAfterDays } = await loadSnapshotSettings();
+  let stale = new Set<string>();
+  if (allowSummarize && summarizeAfterDays > 0) {
+    const threshold = now.getTime() - summarizeAfterDays * DAY_MS;
+    const old = urls.filter((u) => new Date(firstSeen[normalizeUrlForDedup(u)]).getTime() <= threshold);
+    const existing = await lookupExistingClips(old, alive ? sink : null);
+    stale = new Set(old.filter((u) => !existing.has(u)));
+  }
+
+  const linkOnly = filterTabs(byWindow, (u) => !stale.has(u));
+  if (linkOnly.length > 0) {
+    const allIds = new Set(linkOnly.flatMap((w) => w.tabs.map((t) => t.id)));
+    await appendDayIndex(sink, linkOnly, now, allIds);
+  }
+  return {
+    linkedCount: linkOnly.reduce((n, w) => n + w.tabs.length, 0),
+    toSummarize: filterTabs(byWindow, (u) => stale.has(u)),
+    queued: (await countOutbox()) > 0,
+  };
+}
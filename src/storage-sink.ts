@@ -0,0 +1,57 @@
+/**
+ * 保存先（ストレージシンク）。パスはすべて Vault ルートからの相対パス（library/clip/… 等）で、
+ * Obsidian Local REST API・ローカルフォルダ（File System Access API）・ダウンロードフォルダ・WebDAV のどれに書くかを設定画面で選ぶ。
+ */
+
+import { loadObsidianRestSink } from "./obsidian-rest";
+import { loadFsSink } from "./fs-sink";
+import { loadDownloadsSink } from "./downloads-sink";
+import { loadWebdavSink } from "./webdav-sink";
+
+export const STORAGE_KEY_SINK_KIND = "tabReaper_storageSink";
+
+export type SinkKind = "obsidian" | "fs" | "downloads" | "webdav";
+
+export const SINK_LABELS: Record<SinkKind, string> = {
+  obsidian: "Obsidian",
+  fs: "ローカルフォルダ",
+  downloads: "ダウンロードフォルダ",
+  webdav: "WebDAV",
+};
+
+export interface StorageSink {
+  kind: SinkKind;
+  /** 書き込めるか（接続・権限）。false なら書き込みは送信待ちに溜める */
+  healthCheck(): Promise<boolean>;
+  /** 作成または上書き */
+  put(path: string, content: string, contentType?: string): Promise<void>;
+  /**
+   * 既存が無いときだけ書き、既存があれば書かずに false。get で既存ファイルを確かめられない保存先（ダウンロード）だけが持ち、
+   * 他は書き込みモード（write-mode.ts）が get で確かめてから put する
+   */
+  putIfAbsent?(path: string, content: string, contentType?: string): Promise<boolean>;
+  putBinary(path: string, data: ArrayBuffer, contentType: string): Promise<void>;
+  /** 末尾に追記（無ければ作成） */
+  append(path: string, content: string): Promise<void>;
+  /** 読めなければ（無い・読めない保存先）null */
+  get(path: string): Promise<string | null>;
+  /** ファイルがあるか（中身は読まない）。確かめられない保存先（ダウンロード）は null */
+  exists(path: string): Promise<boolean | null>;
+  /** 全文検索して一致したファイルのパスを返す。検索できない保存先では未定義 */
+  search?(query: string): Promise<string[]>;
+}
+
+export async function loadSinkKind(): Promise<SinkKind> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_SINK_KIND);
+  const kind = o[STORAGE_KEY_SINK_KIND];
+  return kind === "fs" || kind === "downloads" || kind === "webdav" ? kind : "obsidian";
+}
+
+/** 設定中の保存先を返す。必要な設定（API Key・フォルダ・URL）が無ければ null */
+export async function loadStorageSink(): Promise<StorageSink | null> {
+  const kind = await loadSinkKind();
+  if (kind === "fs") return loadFsSink();
+  if (kind === "downloads") return loadDownloadsSink();
+  if (kind === "webdav") return loadWebdavSink();
+  return loadObsidianRestSink();
+}
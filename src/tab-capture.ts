@@ -0,0 +1,425 @@
+/**
+ * executeScript 経由でタブから本文・画像・選択テキスト等を取得するラッパー。
+ * 注入できないタブ（特権ページ・Discarded）では空の結果を返す。
+ */
+
+import { normalize, type ChatMessage } from "@pipelines/normalizer";
+import {
+  extractTwitterThreadInPage,
+  extractMarkdownBodyInPage,
+  extractHeadingsInPage,
+  extractPageImagesInPage,
+  extractWebchatInPage,
+  getSelectionInPage,
+  extractYoutubeTranscriptInPage,
+  serializePageForArchiveInPage,
+  type ChatDomTurn,
+  type FrameSlot,
+  type TwitterThread,
+} from "./page-scripts";
+import type { TabGroupInfo } from "./tab-info";
+import { loadTwitterScrollCaptureEnabled, TWITTER_SCROLL_MAX_MS, TWITTER_SCROLL_MAX_TWEETS } from "./twitter";
+
+/** Content Script 注入不可または Discarded の場合は true */
+export function isTabUninjectable(url: string, discarded: boolean): boolean {
+  if (discarded) return true;
+  if (!url || !url.startsWith("http")) return true;
+  if (/^https?:\/\/chrome\.google\.com\/webstore\//i.test(url)) return true;
+  return false;
+}
+
+/** 入れ子の iframe をたどる深さの上限 */
+const FRAME_MERGE_MAX_DEPTH = 5;
+/** どの iframe の位置にも当てはまらなかったフレームの本文は、この文字数以上なら末尾に足す */
+const UNPLACED_FRAME_MIN_CHARS = 500;
+/** extractMarkdownBodyInPage が iframe の位置に残す印 */
+const FRAME_MARKER_RE = /<!--tabReaper:frame (.*?)-->/;
+
+interface FrameResult<T> {
+  frameId: number;
+  frameUrl: string;
+  parts: Array<T | FrameSlot>;
+}
+
+function isFrameSlot(x: unknown): x is FrameSlot {
+  return typeof x === "object" && x !== null && typeof (x as FrameSlot).frame === "string";
+}
+
+/** iframe の src とフレームの URL が同じページか（リダイレクトでクエリが変わることがあるので origin + path でも見る） */
+function isSameFrameUrl(src: string, frameUrl: string): boolean {
+  try {
+    const a = new URL(src);
+    const b = new URL(frameUrl);
+    a.hash = b.hash = "";
+    return a.href === b.href || (a.origin === b.origin && a.pathname === b.pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * allFrames で取った各フレームの結果を文書順に合成する。トップフレームの iframe の印を URL が一致する
+ * フレームの結果で置き換える（入れ子も同様）。どの印にも当たらなかったフレームは keepUnplaced を満たすものだけ末尾に足す。
+ * frameIds は採用したフレーム（トップ含む）の ID。
+ */
+function mergeFrameResults<T>(
+  frames: FrameResult<T>[],
+  keepUnplaced: (items: T[]) => boolean
+): { items: T[]; frameIds: number[] } {
+  const used = new Set<number>();
+  const expand = (frame: FrameResult<T>, depth: number): T[] => {
+    used.add(frame.frameId);
+    const out: T[] = [];
+    for (const part of frame.parts) {
+      if (!isFrameSlot(part)) {
+        out.push(part);
+        continue;
+      }
+      if (depth >= FRAME_MERGE_MAX_DEPTH) continue;
+      const child = frames.find((f) => !used.has(f.frameId) && isSameFrameUrl(part.frame, f.frameUrl));
+      if (child) out.push(...expand(child, depth + 1));
+    }
+    return out;
+  };
+  const top = frames.find((f) => f.frameId === 0);
+  const items = top ? expand(top, 0) : [];
+  const frameIds = top ? [...used] : [];
+  for (const frame of frames) {
+    if (used.has(frame.frameId)) continue;
+    const before = new Set(used);
+    const extra = expand(frame, 1);
+    if (keepUnplaced(extra)) {
+      items.push(...extra);
+      frameIds.push(...[...used].filter((id) => !before.has(id)));
+    }
+  }
+  return { items, frameIds };
+}
+
+/** 指定タブからページ内の画像・動画サムネURLを抽出 */
+export async function fetchTabImages(
+  tabId: number,
+  url: string,
+  discarded: boolean,
+): Promise<{ src: string; alt: string; videoUrl?: string }[]> {
+  if (isTabUninjectable(url, discarded)) return [];
+  try {
+    const result = await chrome.scripting.executeScript({
+      target: { tabId, allFrames: true },
+      func: extractPageImagesInPage,
+    });
+    type Image = { src: string; alt: string; videoUrl?: string };
+    const frames = (result ?? [])
+      .filter((r) => Array.isArray(r.result?.images))
+      .map((r): FrameResult<Image> => ({ frameId: r.frameId, frameUrl: r.result!.frameUrl, parts: r.result!.images }));
+    // 位置の分からないフレームの画像は広告が多いので使わない
+    return mergeFrameResults(frames, () => false).items.slice(0, 10);
+  } catch {
+    return [];
+  }
+}
+
+/** アーカイブ用にページの HTML（画像・外部 CSS は目印付き）を取得。取得不可なら null */
+export async function fetchPageSnapshot(
+  tabId: number,
+  url: string,
+  discarded: boolean
+): Promise<{ html: string; resources: string[] } | null> {
+  if (isTabUninjectable(url, discarded)) return null;
+  try {
+    const result = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: serializePageForArchiveInPage,
+    });
+    const snapshot = result?.[0]?.result;
+    return snapshot && typeof snapshot.html === "string" ? snapshot : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 指定タブで選択中のテキストを取得。取得不可・未選択なら null */
+export async function getSelectedTextInTab(tabId: number, url: string, discarded: boolean): Promise<string | null> {
+  if (isTabUninjectable(url, discarded)) return null;
+  try {
+    const result = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: getSelectionInPage,
+    });
+    const s = result?.[0]?.result;
+    return typeof s === "string" && s.length > 0 ? s : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * tabId がまだ url を開いているタブか。再開時・保存後アクションでは記録したタブ ID が閉じられたり
+ * 別のタブに使い回されたりしているので、取得・閉じる前に確かめる。
+ */
+export async function isSameTab(tabId: number, url: string): Promise<boolean> {
+  try {
+    const tab = await chrome.tabs.get(tabId);
+    return tab.url === url || tab.pendingUrl === url;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Discarded タブをバックグラウンドでリロードし、読み込み完了を待つ。2-0 用。
+ * アクティブにしないのでポップアップが閉じない。最大 30 秒で打ち切り。
+ */
+export async function ensureTabLoadedForBody(tabId: number): Promise<void> {
+  try {
+    await chrome.tabs.reload(tabId);
+  } catch {
+    // 再開時などでタブが既に閉じられている
+    return;
+  }
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      chrome.tabs.onUpdated.removeListener(listener);
+      resolve();
+    }, 30000);
+    const listener = (
+      id: number,
+      changeInfo: chrome.tabs.TabChangeInfo
+    ) => {
+      if (id !== tabId || changeInfo.status !== "complete") return;
+      clearTimeout(timeout);
+      chrome.tabs.onUpdated.removeListener(listener);
+      resolve();
+    };
+    chrome.tabs.onUpdated.addListener(listener);
+  });
+}
+
+/** 選択タブの本文と本文コンテナ内リンクを一度に取得 */
+export async function fetchTabBodyAndLinks(
+  tabId: number,
+  url: string,
+  discarded: boolean
+): Promise<{ bodyText: string | null; links: string[] }> {
+  if (isTabUninjectable(url, discarded)) return { bodyText: null, links: [] };
+  try {
+    const result = await chrome.scripting.executeScript({
+      target: { tabId, allFrames: true },
+      func: extractMarkdownBodyInPage,
+    });
+    const frames = (result ?? []).filter((r) => typeof r.result?.bodyText === "string");
+    const merged = mergeFrameResults(
+      frames.map((r): FrameResult<string> => {
+        // 印の位置で分割すると [本文, src, 本文, src, ...] の順になる
+        const pieces = r.result!.bodyText.split(FRAME_MARKER_RE);
+        return {
+          frameId: r.frameId,
+          frameUrl: r.result!.frameUrl,
+          parts: pieces.map((p, i) => (i % 2 === 1 ? { frame: p } : p)),
+        };
+      }),
+      (items) => items.join("").trim().length >= UNPLACED_FRAME_MIN_CHARS
+    );
+    const text = merged.items.join("\n\n").replace(/\n{3,}/g, "\n\n").trim();
+    const bodyText = text ? text : null;
+    const links = [
+      ...new Set(merged.frameIds.flatMap((id) => frames.find((r) => r.frameId === id)?.result?.links ?? [])),
+    ].slice(0, 30);
+    return { bodyText, links };
+  } catch {
+    return { bodyText: null, links: [] };
+  }
+}
+
+/** 選択タブの見出し情報を取得（analysis モード用）。取得不可時は空配列 */
+export async function fetchTabHeadings(
+  tabId: number,
+  url: string,
+  discarded: boolean
+): Promise<Array<{ level: number; text: string }>> {
+  if (isTabUninjectable(url, discarded)) return [];
+  try {
+    const result = await chrome.scripting.executeScript({
+      target: { tabId, allFrames: true },
+      func: extractHeadingsInPage,
+    });
+    const rows = mergeFrameResults(
+      (result ?? [])
+        .filter((r) => Array.isArray(r.result?.headings))
+        .map((r) => ({ frameId: r.frameId, frameUrl: r.result!.frameUrl, parts: r.result!.headings })),
+      (items) => items.length > 0
+    ).items;
+    return rows
+      .map((r) => r as { level?: unknown; text?: unknown })
+      .map((r) => ({
+        level: typeof r.level === "number" ? r.level : 0,
+        text: typeof r.text === "string" ? r.text.trim() : "",
+      }))
+      .filter((r) => r.level >= 1 && r.level <= 4 && r.text.length > 0)
+      .slice(0, 40);
+  } catch {
+    return [];
+  }
+}
+
+/** DOM から取れたターンを raw_chat 用のテキストにする（見出しで話者を区切る） */
+function formatDomTurns(turns: ChatDomTurn[]): string {
+  return turns.map((t) => `### ${t.speaker}\n${chatTurnText(t)}`).join("\n\n");
+}
+
+function chatTurnText(turn: ChatDomTurn): string {
+  if (turn.attachments.length === 0) return turn.markdown;
+  const attachments = turn.attachments.map((a) => `- ${a}`).join("\n");
+  return `${turn.markdown}\n\n添付:\n${attachments}`.trim();
+}
+
+/**
+ * チャットの会話を取得する。ChatGPT / Claude / Gemini は描画済みなら DOM のターン（話者・Markdown 本文・添付）をそのまま使い、
+ * 取れなければ innerText を normalizer でターン分割する。domTurns は DOM から取れたターン数（フォールバック時は 0）。
+ * sources は Perplexity の出典リンク（[title](href)）。
+ */
+export async function fetchChatContent(
+  tabId: number,
+  url: string,
+  discarded: boolean
+): Promise<{ service: string; messages: ChatMessage[]; raw_text: string; domTurns: number; sources: string[] }> {
+  if (isTabUninjectable(url, discarded)) {
+    return { service: "unknown", messages: [], raw_text: "", domTurns: 0, sources: [] };
+  }
+  try {
+    const extraction = chrome.scripting.executeScript({
+      target: { tabId },
+      func: extractWebchatInPage,
+    });
+    const timed = new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error("chat extraction timeout")), 5000)
+    );
+    const result = (await Promise.race([extraction, timed])) as chrome.scripting.InjectionResult[];
+    const data = result?.[0]?.result as
+      | { service?: string; rawText?: string; turns?: ChatDomTurn[]; sources?: string[] }
+      | undefined;
+    const turns = data?.turns ?? [];
+    const sources = data?.sources ?? [];
+    // 片方の話者しか無いのは描画途中などで取りこぼしている
+    const domUsable = turns.some((t) => t.speaker === "user") && turns.some((t) => t.speaker === "assistant");
+    if (domUsable) {
+      return {
+        service: data?.service ?? "unknown",
+        messages: turns.map((t) => ({ speaker: t.speaker, text: chatTurnText(t) }) as ChatMessage),
+        raw_text: formatDomTurns(turns),
+        domTurns: turns.length,
+        sources,
+      };
+    }
+    const normalized = normalize({
+      mode: "chat",
+      rawText: data?.rawText ?? "",
+      metadata: { service: data?.service ?? "unknown" },
+    });
+    return {
+      service: (normalized.metadata.service as string) ?? "unknown",
+      messages: normalized.messages,
+      raw_text: normalized.raw_text,
+      domTurns: 0,
+      sources,
+    };
+  } catch {
+    return { service: "unknown", messages: [], raw_text: "", domTurns: 0, sources: [] };
+  }
+}
+
+/**
+ * バックグラウンドのタブは描画されずスクロールしても続きが読み込まれないので、取得の間だけウィンドウ内でアクティブにする。
+ * 元のアクティブタブに戻す関数を返す。
+ */
+async function activateTabWhileCapturing(tabId: number): Promise<() => Promise<void>> {
+  const tab = await chrome.tabs.get(tabId);
+  if (tab.active) return async () => {};
+  const [previous] = await chrome.tabs.query({ active: true, windowId: tab.windowId });
+  await chrome.tabs.update(tabId, { active: true });
+  return async () => {
+    if (previous?.id != null) await chrome.tabs.update(previous.id, { active: true }).catch(() => undefined);
+  };
+}
+
+/**
+ * Twitter/X のスレッド（本ツイート＋本人続き）をツイート単位で取得。取れなければ null。
+ * 設定でスクロール取得が有効なら、タブをアクティブにしてスクロールし、画面外のツイートまで集める。
+ * 続きの終わりまで届かなかったら partial（ウィンドウが最小化されている・時間切れ）。
+ */
+export async function fetchTwitterThread(
+  tabId: number,
+  url: string,
+  discarded: boolean
+): Promise<TwitterThread | null> {
+  if (isTabUninjectable(url, discarded)) return null;
+  try {
+    const scroll = await loadTwitterScrollCaptureEnabled();
+    const restore = scroll ? await activateTabWhileCapturing(tabId) : null;
+    try {
+      const result = await chrome.scripting.executeScript({
+        target: { tabId },
+        func: extractTwitterThreadInPage,
+        args: [scroll, TWITTER_SCROLL_MAX_MS, TWITTER_SCROLL_MAX_TWEETS],
+      });
+      const thread = result?.[0]?.result;
+      return thread && thread.tweets.length > 0 ? thread : null;
+    } finally {
+      await restore?.();
+    }
+  } catch {
+    return null;
+  }
+}
+
+export type YoutubeTranscript = NonNullable<Awaited<ReturnType<typeof extractYoutubeTranscriptInPage>>>;
+
+/** YouTube の字幕（タイムスタンプ付き）を取得。プレイヤーの変数を読むため MAIN world で注入。無ければ null */
+export async function fetchYoutubeTranscript(
+  tabId: number,
+  url: string,
+  discarded: boolean
+): Promise<YoutubeTranscript | null> {
+  if (isTabUninjectable(url, discarded)) return null;
+  try {
+    const extraction = chrome.scripting.executeScript({
+      target: { tabId },
+      world: "MAIN",
+      func: extractYoutubeTranscriptInPage,
+    });
+    const timed = new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error("youtube transcript timeout")), 15000)
+    );
+    const result = (await Promise.race([extraction, timed])) as chrome.scripting.InjectionResult[];
+    const transcript = result?.[0]?.result as YoutubeTranscript | null | undefined;
+    return transcript?.segments?.length ? transcript : null;
+  } catch {
+    return null;
+  }
+}
+
+const GROUP_COLOR_LABELS: Record<string, string> = {
+  grey: "グレー",
+  blue: "青",
+  red: "赤",
+  yellow: "黄",
+  green: "緑",
+  pink: "ピンク",
+  purple: "紫",
+  cyan: "シアン",
+  orange: "オレンジ",
+};
+
+/** ウィンドウ内のタブグループを取得。タイトル未設定のグループは色名をラベルにする */
+export async function fetchWindowGroups(windowId: number): Promise<TabGroupInfo[]> {
+  try {
+    const groups = await chrome.tabGroups.query({ windowId });
+    return groups.map((g) => {
+      const title = (g.title || "").trim();
+      const color = String(g.color);
+      return { id: g.id, title, color, label: title || `${GROUP_COLOR_LABELS[color] ?? color}グループ` };
+    });
+  } catch {
+    return [];
+  }
+}
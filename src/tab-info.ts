@@ -0,0 +1,167 @@
+/**
+ * タブ情報の型と URL からの種別判定。popup / background / 保存パイプラインで共有する。
+ */
+
+const WINDOW_LABEL_MAX_LEN = 40;
+
+const TWITTER_HOST_RE = /^(https?:\/\/)?(www\.)?(twitter\.com|x\.com)(\/|$)/i;
+const YOUTUBE_HOST_RE = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)(\/|$)/i;
+
+export type SourceType = "web" | "x" | "youtube" | "paper" | "blog";
+export type ChatService =
+  | "chatgpt"
+  | "claude"
+  | "gemini"
+  | "perplexity"
+  | "grok"
+  | "deepseek"
+  | "copilot"
+  | "mistral"
+  | "notebooklm";
+/** 既存クリップがあるタブの扱い: スキップ / 既存ノートに再要約 / 別ノートとして再クリップ / 新しいターンを追記（chat のみ） */
+export type DuplicateAction = "skip" | "resummarize" | "new" | "append";
+
+/** 新しく作るファイルが既存と衝突した。skipped は書き込みモード create で書かなかった、renamed は別名で書いた */
+export type WriteConflict = { path: string; resolution: "skipped" | "renamed"; writtenPath?: string };
+
+export function detectSourceType(url: string): SourceType {
+  if (TWITTER_HOST_RE.test(url)) return "x";
+  if (YOUTUBE_HOST_RE.test(url)) return "youtube";
+  if (/\.pdf(\?|#|$)/i.test(url)) return "paper";
+  return "web";
+}
+
+/** 保存時の種別。ドメインルールで上書きされていればそちらを使う */
+export function sourceTypeOfTab(tab: TabInfo): SourceType {
+  return tab.sourceType ?? detectSourceType(tab.url);
+}
+
+export function isTwitterUrl(url: string): boolean {
+  try {
+    return TWITTER_HOST_RE.test(url || "");
+  } catch {
+    return false;
+  }
+}
+
+/** chrome.tabs.Tab から保存パイプライン用の TabInfo を作る。content は一覧表示用の本文冒頭 */
+export function toTabInfo(tab: chrome.tabs.Tab, content: string | null = null): TabInfo {
+  return {
+    id: tab.id!,
+    title: tab.title ?? null,
+    url: tab.url || "",
+    content,
+    discarded: tab.discarded,
+    chatService: detectChatService(tab.url || "") ?? undefined,
+    groupId: tab.groupId != null && tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE ? tab.groupId : undefined,
+  };
+}
+
+export function detectChatService(url: string): ChatService | null {
+  const u = (url || "").toLowerCase();
+  if (u.includes("chatgpt.com") || u.includes("chat.openai.com")) return "chatgpt";
+  if (u.includes("claude.ai")) return "claude";
+  if (u.includes("gemini.google.com")) return "gemini";
+  if (u.includes("perplexity.ai")) return "perplexity";
+  // x.com の Grok は Twitter/X 判定より先にここで chat にする
+  if (u.includes("grok.com") || u.includes("x.com/i/grok")) return "grok";
+  if (u.includes("chat.deepseek.com")) return "deepseek";
+  if (u.includes("copilot.microsoft.com") || u.includes("copilot.cloud.microsoft")) return "copilot";
+  if (u.includes("chat.mistral.ai")) return "mistral";
+  if (u.includes("notebooklm.google.com")) return "notebooklm";
+  return null;
+}
+
+/** タイトルから装飾・サイト名を除去して内容のみ返す（" - Site" / " | Site" 等の後ろを落とす） */
+export function contentOnlyTitle(title: string | null): string {
+  if (!title || !title.trim()) return "";
+  const t = title.trim();
+  const first = t
+    .split(/\s*[-–—|]\s*|\s+\|\s+/)[0]
+    ?.trim()
+    .replace(/^\s*[·・]\s*|\s*[·・]\s*$/g, "")
+    .trim();
+  if (!first) return "";
+  if (/^(無題|Untitled|untitled)$/i.test(first)) return "";
+  return first.slice(0, WINDOW_LABEL_MAX_LEN);
+}
+
+export interface TabInfo {
+  id: number;
+  title: string | null;
+  url: string;
+  content?: string | null;
+  discarded?: boolean;
+  summaryFilename?: string;
+  summaryContent?: string;
+  summaryVaultDir?: string;
+  rawFilename?: string;
+  rawContent?: string;
+  chatRawFilename?: string;
+  chatRawContent?: string;
+  /** 1-0 本文取得で設定。要約 md の raw_content に書くパス */
+  rawContentPathForSummary?: string;
+  /** 本文中に言及された URL（要点リスト末尾に追記用） */
+  extractedUrls?: string[];
+  /** analysis モードの切り分けに使う見出し情報 */
+  headings?: Array<{ level: number; text: string }>;
+  uid8?: string;
+  baseForFilename?: string;
+  chatService?: ChatService;
+  pageImageUrls?: { src: string; alt: string; videoUrl?: string }[];
+  capturedImages?: { filename: string; alt: string; videoUrl?: string }[];
+  /** chat 蒸留失敗時のみ。day-index は URL のみ・タブ背景赤表示用 */
+  distillFailed?: boolean;
+  /** chat 捕獲が基準未満で capture_failed ノートを書いた */
+  chatCaptureFailed?: boolean;
+  /** 要約 md の書き込みに失敗（day-index は URL のみ） */
+  summarySaveFailed?: boolean;
+  /** 要約できずプレースホルダのノートにした（保存後のタブ処理はしない） */
+  placeholderSummary?: boolean;
+  /** 書き込みが送信待ちに入り、まだ保存先に届いていない（保存後のタブ処理はしない） */
+  writeQueued?: boolean;
+  /** 書き込みモード（write-mode.ts）で既存ファイルとの衝突を処理したもの */
+  writeConflicts?: WriteConflict[];
+  /** 設定時はページ本文の代わりにこの選択テキストを要約する（ショートカット・右クリックメニュー） */
+  selectionText?: string;
+  /** selectionText を要約せず引用ノート（q-*.md）として保存する */
+  quoteClip?: boolean;
+  /** 同じ URL の既存クリップ（Vault パス）。重複検出で設定 */
+  existingClipPath?: string;
+  duplicateAction?: DuplicateAction;
+  /** 保存済みチャットに追記した（newTurns が 0 ならノートは書き換えない） */
+  chatUpdate?: { newTurns: number };
+  /** 所属する Chrome タブグループ。未所属なら undefined */
+  groupId?: number;
+  /** 字幕を取得できた YouTube タブ。字幕本文（タイムスタンプ付き）は rawContent */
+  youtubeTranscript?: { videoId: string; language: string; auto: boolean };
+  /** スレッドを取得できた Twitter/X タブ。整形したスレッド本文は rawContent。partial はスクロール取得がスレッドの終わりまで届かなかったとき true */
+  twitterThread?: { author: string; postedAt: string | null; threadLength: number; partial?: boolean };
+  /** アーカイブモードで保存したページの MHTML / HTML（Vault 内のパス） */
+  archivePath?: string;
+  /** 以下はドメインルール（rules.ts）で設定。sourceType は detectSourceType の上書き */
+  sourceType?: SourceType;
+  skipSummary?: boolean;
+  noRaw?: boolean;
+  /** ウィンドウの画像トグルが off でも画像を取り込む */
+  captureImages?: boolean;
+  /** 要約ノートの保存先フォルダ。未設定なら library/clip・library/reference */
+  vaultDir?: string;
+}
+
+/** Chrome タブグループ。label は frontmatter の window: と day-index の入れ子に使う */
+export interface TabGroupInfo {
+  id: number;
+  title: string;
+  color: string;
+  label: string;
+}
+
+/** 保存対象としてまとめたウィンドウ単位の選択 */
+export interface SelectedWindow {
+  windowIndex: number;
+  windowLabel: string;
+  tabs: TabInfo[];
+  captureImages: boolean;
+  groups: TabGroupInfo[];
+}
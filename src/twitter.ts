@@ -0,0 +1,84 @@
+/**
+ * Twitter/X のスレッド取得の設定と整形。スクロール取得（opt-in）は画面外に消えたツイートも集めるためタブを実際にスクロールする。
+ * 取得したツイートは作者・日時・引用・カード・画像の alt・permalink 付きの Markdown にして raw と要約の入力にし、
+ * クリップの frontmatter に author / posted_at / thread_length（途中までなら thread_partial）を足す。
+ */
+
+import type { TwitterThread, TwitterTweet } from "./page-scripts";
+import type { TabInfo } from "./tab-info";
+
+export const STORAGE_KEY_TWITTER_SCROLL_CAPTURE = "tabReaper_twitterScrollCapture";
+
+/** スクロール取得を打ち切るまでの時間 */
+export const TWITTER_SCROLL_MAX_MS = 60000;
+/** スクロール取得で集めるツイート数の上限 */
+export const TWITTER_SCROLL_MAX_TWEETS = 200;
+
+export async function loadTwitterScrollCaptureEnabled(): Promise<boolean> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_TWITTER_SCROLL_CAPTURE);
+  return o[STORAGE_KEY_TWITTER_SCROLL_CAPTURE] === true;
+}
+
+function formatAuthor(displayName: string, handle: string): string {
+  if (!handle) return displayName || "（不明）";
+  return displayName ? `${displayName} (@${handle})` : `@${handle}`;
+}
+
+/** frontmatter 用の要約。author・posted_at は先頭（本ツイート）から */
+export function twitterThreadMeta(thread: TwitterThread): NonNullable<TabInfo["twitterThread"]> {
+  const head = thread.tweets[0];
+  return {
+    author: formatAuthor(head.displayName, head.handle),
+    postedAt: head.postedAt,
+    threadLength: thread.tweets.length,
+    partial: thread.partial,
+  };
+}
+
+/** スレッドを raw 保存・要約用の Markdown にする。各ツイートは見出し（番号・作者・日時）と permalink 付き */
+export function buildTwitterThreadMd(tweets: TwitterTweet[]): string {
+  const blocks = tweets.map((t, i) => {
+    const lines = [`## ${i + 1}/${tweets.length} ${formatAuthor(t.displayName, t.handle)}${t.postedAt ? ` · ${t.postedAt}` : ""}`];
+    if (t.url) lines.push(t.url);
+    lines.push("");
+    if (t.text) lines.push(t.text, "");
+    if (t.quote) {
+      const head = `引用: ${formatAuthor(t.quote.displayName, t.quote.handle)}${t.quote.url ? ` ${t.quote.url}` : ""}`;
+      lines.push(...[head, ...t.quote.text.split("\n")].map((l) => (l ? `> ${l}` : ">")), "");
+    }
+    if (t.card) lines.push(`カード: [${t.card.title.replace(/\]/g, "\\]")}](${t.card.url})`, "");
+    for (const img of t.images) lines.push(`画像: ${img.alt || "（alt なし）"} ${img.src}`);
+    if (t.images.length > 0) lines.push("");
+    if (t.metrics) lines.push(`反応: ${t.metrics}`, "");
+    return lines.join("\n").trimEnd();
+  });
+  return blocks.join("\n\n---\n\n");
+}
+
+/** カードと引用ツイートのリンク（要点リスト末尾の URL 用） */
+export function twitterThreadLinks(tweets: TwitterTweet[]): string[] {
+  const links: string[] = [];
+  for (const t of tweets) {
+    if (t.card) links.push(`[${t.card.title.replace(/\]/g, "\\]")}](${t.card.url})`);
+    if (t.quote?.url) links.push(`[${formatAuthor(t.quote.displayName, t.quote.handle)}](${t.quote.url})`);
+  }
+  return [...new Set(links)];
+}
+
+function yamlString(s: string): string {
+  return `"${s.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/** 要約 md の frontmatter に author / posted_at / thread_length / thread_partial を足す（frontmatter が無ければそのまま） */
+export function withTwitterFrontmatter(md: string, meta: TabInfo["twitterThread"]): string {
+  if (!meta || !md.startsWith("---\n")) return md;
+  const end = md.indexOf("\n---", 4);
+  if (end === -1) return md;
+  const fields = [
+    `author: ${yamlString(meta.author)}`,
+    ...(meta.postedAt ? [`posted_at: ${meta.postedAt}`] : []),
+    `thread_length: ${meta.threadLength}`,
+    ...(meta.partial ? ["thread_partial: true"] : []),
+  ];
+  return `${md.slice(0, end)}\n${fields.join("\n")}${md.slice(end)}`;
+}
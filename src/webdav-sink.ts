@@ -0,0 +1,98 @@
+/**
+ * WebDAV への保存（Nextcloud・NAS 等）。設定の URL を Vault ルートとして扱い、Basic 認証で PUT する。
+ * 親フォルダが無ければ MKCOL で作ってから書き直す。WebDAV に追記は無いので、追記は読んでから全体を PUT する。
+ */
+
+import type { StorageSink } from "./storage-sink";
+
+export const STORAGE_KEY_WEBDAV_URL = "tabReaper_webdavUrl";
+export const STORAGE_KEY_WEBDAV_USER = "tabReaper_webdavUser";
+export const STORAGE_KEY_WEBDAV_PASSWORD = "tabReaper_webdavPassword";
+
+export interface WebdavConfig {
+  /** 末尾の / は除く */
+  baseUrl: string;
+  user: string;
+  password: string;
+}
+
+export async function loadWebdavConfig(): Promise<WebdavConfig | null> {
+  const o = await chrome.storage.local.get([STORAGE_KEY_WEBDAV_URL, STORAGE_KEY_WEBDAV_USER, STORAGE_KEY_WEBDAV_PASSWORD]);
+  const baseUrl = String(o[STORAGE_KEY_WEBDAV_URL] || "").trim().replace(/\/+$/, "");
+  if (!baseUrl) return null;
+  return { baseUrl, user: String(o[STORAGE_KEY_WEBDAV_USER] || ""), password: String(o[STORAGE_KEY_WEBDAV_PASSWORD] || "") };
+}
+
+function authHeader(cfg: WebdavConfig): Record<string, string> {
+  if (!cfg.user && !cfg.password) return {};
+  const bytes = new TextEncoder().encode(`${cfg.user}:${cfg.password}`);
+  return { Authorization: `Basic ${btoa(String.fromCharCode(...bytes))}` };
+}
+
+function urlOf(cfg: WebdavConfig, path: string): string {
+  return `${cfg.baseUrl}/${path.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+/** PROPFIND でルートを確認する（設定画面の接続テストにも使う） */
+export async function webdavHealthCheck(cfg: WebdavConfig): Promise<boolean> {
+  try {
+    const res = await fetch(`${cfg.baseUrl}/`, { method: "PROPFIND", headers: { ...authHeader(cfg), Depth: "0" } });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+/** path の親フォルダを上から順に作る（既にあれば 405 が返るので無視） */
+async function makeParentCollections(cfg: WebdavConfig, path: string): Promise<void> {
+  const segments = path.split("/").filter(Boolean).slice(0, -1);
+  for (let i = 1; i <= segments.length; i++) {
+    const res = await fetch(urlOf(cfg, segments.slice(0, i).join("/")) + "/", { method: "MKCOL", headers: authHeader(cfg) });
+    if (!res.ok && res.status !== 405) throw new Error(`MKCOL ${segments.slice(0, i).join("/")} failed: ${res.status}`);
+  }
+}
+
+async function webdavPut(cfg: WebdavConfig, path: string, body: string | ArrayBuffer, contentType: string): Promise<void> {
+  const put = () =>
+    fetch(urlOf(cfg, path), { method: "PUT", headers: { ...authHeader(cfg), "Content-Type": contentType }, body });
+  let res = await put();
+  // 親フォルダが無いと 409（サーバーによっては 404）。401 / 403 等の認証・権限エラーは作り直しても通らないのでそのまま返す
+  if (res.status === 409 || res.status === 404) {
+    await makeParentCollections(cfg, path);
+    res = await put();
+  }
+  if (!res.ok) throw new Error(`PUT ${path} failed: ${res.status}`);
+}
+
+async function webdavGet(cfg: WebdavConfig, path: string): Promise<string | null> {
+  const res = await fetch(urlOf(cfg, path), { headers: authHeader(cfg) });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`GET ${path} failed: ${res.status}`);
+  return res.text();
+}
+
+/** PROPFIND（Depth: 0）でファイルの有無だけを確かめる */
+async function webdavExists(cfg: WebdavConfig, path: string): Promise<boolean> {
+  const res = await fetch(urlOf(cfg, path), { method: "PROPFIND", headers: { ...authHeader(cfg), Depth: "0" } });
+  if (res.status === 404) return false;
+  if (!res.ok) throw new Error(`PROPFIND ${path} failed: ${res.status}`);
+  return true;
+}
+
+/** URL が未設定なら null */
+export async function loadWebdavSink(): Promise<StorageSink | null> {
+  const cfg = await loadWebdavConfig();
+  if (!cfg) return null;
+  return {
+    kind: "webdav",
+    healthCheck: () => webdavHealthCheck(cfg),
+    put: (path, content, contentType = "text/markdown") => webdavPut(cfg, path, content, `${contentType}; charset=utf-8`),
+    putBinary: (path, data, contentType) => webdavPut(cfg, path, data, contentType),
+    async append(path, content) {
+      const current = (await webdavGet(cfg, path)) ?? "";
+      await webdavPut(cfg, path, current + content, "text/markdown; charset=utf-8");
+    },
+    get: (path) => webdavGet(cfg, path),
+    exists: (path) => webdavExists(cfg, path),
+  };
+}
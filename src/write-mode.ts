@@ -0,0 +1,96 @@
+/**
+ * 新しく作るファイル（raw・ノート）の書き込みモード。生成したパスに既にファイルがあったとき、
+ * create は書かずに衝突として報告、overwrite は上書き、version は "-2" "-3" … を付けた別名で書く。
+ * 「既存に再要約」「新しいターンを追記」のように既存ノートを意図して書き換える場合は対象外。
+ */
+
+import type { StorageSink } from "./storage-sink";
+
+export const STORAGE_KEY_WRITE_MODE = "tabReaper_writeMode";
+
+export type WriteMode = "create" | "overwrite" | "version";
+
+export const DEFAULT_WRITE_MODE: WriteMode = "version";
+
+/** これだけ試して空きが無ければ諦める */
+const VERSION_SUFFIX_MAX = 100;
+
+export async function loadWriteMode(): Promise<WriteMode> {
+  const o = await chrome.storage.local.get(STORAGE_KEY_WRITE_MODE);
+  const mode = o[STORAGE_KEY_WRITE_MODE];
+  return mode === "create" || mode === "overwrite" || mode === "version" ? mode : DEFAULT_WRITE_MODE;
+}
+
+/** "dir/name.md" → "dir/name-2.md" */
+export function versionedPath(path: string, n: number): string {
+  const slash = path.lastIndexOf("/");
+  const dot = path.lastIndexOf(".");
+  return dot > slash + 1 ? `${path.slice(0, dot)}-${n}${path.slice(dot)}` : `${path}-${n}`;
+}
+
+/** 既存なら true、無ければ false、確かめられなければ（未接続・ダウンロード）null */
+async function fileExists(sink: StorageSink, path: string): Promise<boolean | null> {
+  try {
+    return await sink.exists(path);
+  } catch {
+    return null;
+  }
+}
+
+/** path が空いていれば path、埋まっていれば空いている "-N" 付きのパス。確かめられなければ path のまま */
+async function firstFreePath(sink: StorageSink, path: string): Promise<string> {
+  if ((await fileExists(sink, path)) !== true) return path;
+  for (let n = 2; n <= VERSION_SUFFIX_MAX; n++) {
+    const candidate = versionedPath(path, n);
+    if ((await fileExists(sink, candidate)) !== true) return candidate;
+  }
+  throw new Error(`${path}: 空いている別名が見つかりません`);
+}
+
+/** exists で確かめられない保存先: 書けるところまで putIfAbsent を試す */
+async function putIfAbsentOrVersion(
+  sink: StorageSink,
+  path: string,
+  content: string,
+  contentType: string,
+  mode: WriteMode
+): Promise<string | null> {
+  const tryPut = (p: string) => sink.putIfAbsent!(p, content, contentType);
+  if (await tryPut(path)) return path;
+  if (mode === "create") return null;
+  for (let n = 2; n <= VERSION_SUFFIX_MAX; n++) {
+    const candidate = versionedPath(path, n);
+    if (await tryPut(candidate)) return candidate;
+  }
+  throw new Error(`${path}: 空いている別名が見つかりません`);
+}
+
+/**
+ * path に新しくファイルを作る。既存が無ければ path に書き、既存があれば create は書かずに null、
+ * version は空いている別名に書いてそのパスを返す（overwrite はそのまま上書き）。
+ */
+export async function putNewFile(
+  sink: StorageSink,
+  path: string,
+  content: string,
+  contentType: string,
+  mode: WriteMode
+): Promise<string | null> {
+  if (mode !== "overwrite" && sink.putIfAbsent) {
+    return putIfAbsentOrVersion(sink, path, content, contentType, mode);
+  }
+  if (mode === "create" && (await fileExists(sink, path)) === true) return null;
+  const target = mode === "version" ? await firstFreePath(sink, path) : path;
+  await sink.put(target, content, contentType);
+  return target;
+}
+
+/** content 内の from へのリンク（パス・[[ノート名]]）を to に付け替える */
+export function relinkPath(content: string, from: string, to: string): string {
+  return content.split(from).join(to).split(`[[${noteName(from)}]]`).join(`[[${noteName(to)}]]`);
+}
+
+/** "dir/name.md" → "name"（day-index の [[ノート名]]） */
+export function noteName(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/i, "");
+}
@@ -0,0 +1,112 @@
+/**
+ * YouTube 字幕の整形と要約プロンプト。raw はタイムスタンプ付きの行、要約はセクションごとの要点を
+ * 動画の該当位置（&t=）へのリンク付きで書く。
+ */
+
+import type { YoutubeTranscript } from "./tab-capture";
+
+/** raw の1行にまとめる字幕の長さ（秒）。自動字幕は数語ずつ細切れなので束ねる */
+const TRANSCRIPT_LINE_SECONDS = 30;
+/** 要約プロンプトに入れる字幕の上限 */
+export const TRANSCRIPT_PROMPT_MAX_CHARS = 100000;
+
+export function formatTimestamp(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = String(s % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${sec}` : `${m}:${sec}`;
+}
+
+/** "1:02:03" / "12:34" → 秒。読めなければ null */
+export function parseTimestamp(stamp: string): number | null {
+  const parts = stamp.trim().split(":");
+  if (parts.length < 2 || parts.length > 3 || parts.some((p) => !/^\d+$/.test(p))) return null;
+  return parts.reduce((acc, p) => acc * 60 + Number(p), 0);
+}
+
+export function youtubeDeepLink(videoId: string, seconds: number): string {
+  return `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s`;
+}
+
+/** 字幕を "[m:ss] テキスト" の行にする（約30秒ごとに束ねる） */
+export function buildTranscriptText(transcript: YoutubeTranscript): string {
+  const lines: string[] = [];
+  let start = -1;
+  let parts: string[] = [];
+  const flush = () => {
+    if (parts.length > 0) lines.push(`[${formatTimestamp(start)}] ${parts.join(" ")}`);
+    parts = [];
+  };
+  for (const seg of transcript.segments) {
+    if (start < 0 || seg.start - start >= TRANSCRIPT_LINE_SECONDS) {
+      flush();
+      start = seg.start;
+    }
+    parts.push(seg.text);
+  }
+  flush();
+  return lines.join("\n");
+}
+
+export type YoutubeSummaryJson = {
+  short_title: string;
+  summary: string;
+  sections: Array<{ start: string; title: string; points: string[] }>;
+  tags: string;
+};
+
+export function buildYoutubeSummaryPrompt(): string {
+  return `あなたは動画の字幕から要約を作る実行器です。入力は "[分:秒] 発話" 形式の字幕です。JSONのみを返してください。
+
+## 出力形式（JSONのみ）
+\`\`\`json
+{
+  "short_title": "ファイル名用の短いタイトル（20文字以内・日本語）",
+  "summary": "動画全体の要約（3〜6文）",
+  "sections": [
+    { "start": "分:秒", "title": "セクション名", "points": ["要点1", "要点2"] }
+  ],
+  "tags": "タグ1, タグ2, タグ3"
+}
+\`\`\`
+
+## ルール
+- sections は話題の切り替わりごとに時系列で 3〜10 個。start はそのセクションが始まる字幕のタイムスタンプをそのまま使う
+- points は各セクション 1〜4 項目
+- 捏造禁止。字幕にないことは書かない（自動字幕の誤認識は文脈で補正してよい）
+- すべて日本語で出力
+- 余計な説明文は付けず JSON のみ返す`;
+}
+
+export function parseYoutubeSummaryJson(raw: string): YoutubeSummaryJson {
+  const t = (raw || "").trim();
+  const codeBlock = t.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  const parsed = JSON.parse((codeBlock ? codeBlock[1] : t).trim()) as Record<string, unknown>;
+  const sections = Array.isArray(parsed.sections) ? (parsed.sections as Array<Record<string, unknown>>) : [];
+  return {
+    short_title: String(parsed.short_title || ""),
+    summary: String(parsed.summary || ""),
+    sections: sections.map((s) => ({
+      start: String(s.start || ""),
+      title: String(s.title || ""),
+      points: Array.isArray(s.points) ? s.points.map(String).filter(Boolean) : [],
+    })),
+    tags: String(parsed.tags || ""),
+  };
+}
+
+/** セクションを logger の topics にする。見出しは動画の該当位置へのリンク */
+export function buildYoutubeTopics(
+  json: YoutubeSummaryJson,
+  videoId: string
+): Array<{ topic: string; points: string[] }> {
+  return json.sections
+    .filter((s) => s.title || s.points.length > 0)
+    .map((s) => {
+      const seconds = parseTimestamp(s.start);
+      const title = s.title || "（無題）";
+      const topic = seconds != null ? `[${formatTimestamp(seconds)}](${youtubeDeepLink(videoId, seconds)}) ${title}` : title;
+      return { topic, points: s.points };
+    });
+}
@@ -10,6 +10,10 @@ export default defineConfig({
       input: {
         popup: "src/popup.ts",
         options: "src/options.ts",
+        background: "src/background.ts",
+        offscreen: "src/offscreen.ts",
+        // offscreen の pdf.js が GlobalWorkerOptions.workerSrc で読む
+        "pdf.worker": "node_modules/pdfjs-dist/build/pdf.worker.min.mjs",
       },
       output: {
         entryFileNames: "[name].js",